@@ -3,9 +3,9 @@
  * Handles token acquisition, caching, and automatic refresh
  */
 
-import type { TokenResponse, TokenCache, OAuthCredentials } from '../types/oauth.js';
+import type { TokenResponse, TokenCache, OAuthCredentials, TokenProvider } from '../types/oauth.js';
 
-export class OAuthManager {
+export class OAuthManager implements TokenProvider {
   private baseUrl: string;
   private credentials: OAuthCredentials;
   private tokenCache: TokenCache | null = null;
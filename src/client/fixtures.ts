@@ -0,0 +1,303 @@
+/**
+ * Record/replay fixtures for UnoPimClient
+ * Record mode saves every API exchange as a scrubbed JSON file; replay mode answers requests
+ * from those files without network access, so tool behaviour can be tested and customer bugs
+ * reproduced offline
+ */
+
+import { createHash } from 'node:crypto';
+import { mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { UnoPimApiError } from '../types/errors.js';
+import type { TokenProvider } from '../types/oauth.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The subset of fetch UnoPimClient uses; record and replay modes swap it out
+ */
+export type FetchFn = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface Fixture {
+  fixture_version: 1;
+  key: string;
+  occurrence: number; // 0 for the first identical request, 1 for the second, ...
+  recorded_at: string;
+  request: {
+    method: string;
+    path: string;
+    query: Record<string, string | string[]>;
+    headers: Record<string, string>;
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body?: unknown;
+  };
+}
+
+interface RequestDescription {
+  key: string;
+  label: string;
+  request: Fixture['request'];
+  sendBody: RequestInit['body']; // The body to forward when the original was a one-shot stream
+}
+
+const FIXTURE_VERSION = 1;
+const REDACTED = '[REDACTED]';
+
+// Keys and headers whose values never reach a fixture file
+const SECRET_KEY = /pass(word)?|secret|token|authorization|cookie|api[_-]?key|client[_-]?id/i;
+
+// Per-request noise that would make identical requests look different
+const IGNORED_REQUEST_HEADERS = new Set(['x-request-id', 'content-length']);
+
+// Response headers the client acts on; everything else is left out of fixtures
+const KEPT_RESPONSE_HEADERS = /^(content-type|retry-after|x-ratelimit-.*)$/i;
+
+// ============================================================================
+// Record / Replay
+// ============================================================================
+
+/**
+ * Wraps fetch so every exchange is written to dir as <method>-<path>-<hash>-<n>.json
+ * Re-recording the same requests overwrites the earlier files
+ */
+export function createRecordingFetch(dir: string, baseFetch: FetchFn = fetch): FetchFn {
+  mkdirSync(dir, { recursive: true });
+  const occurrences = new Map<string, number>();
+
+  return async (url, init = {}) => {
+    const description = await describeRequest(url, init);
+    const { duplex: _duplex, ...forwarded } = init as RequestInit & { duplex?: string };
+    const response = await baseFetch(url, { ...forwarded, body: description.sendBody });
+
+    const occurrence = occurrences.get(description.key) ?? 0;
+    occurrences.set(description.key, occurrence + 1);
+
+    const fixture: Fixture = {
+      fixture_version: FIXTURE_VERSION,
+      key: description.key,
+      occurrence,
+      recorded_at: new Date().toISOString(),
+      request: description.request,
+      response: {
+        status: response.status,
+        headers: pickResponseHeaders(response.headers),
+        body: scrub(parseText(await response.clone().text())),
+      },
+    };
+    writeFileSync(join(dir, fixtureFileName(fixture)), JSON.stringify(fixture, null, 2) + '\n');
+
+    return response;
+  };
+}
+
+/**
+ * Serves recorded responses instead of calling the network
+ * Identical requests get their recorded responses in order; once those run out the last one repeats
+ * A request with no fixture fails with INTERNAL_ERROR (never retried) naming the missing request
+ */
+export function createReplayFetch(dir: string): FetchFn {
+  const fixtures = loadFixtures(dir);
+  const served = new Map<string, number>();
+
+  return async (url, init = {}) => {
+    const description = await describeRequest(url, init);
+    const candidates = fixtures.get(description.key);
+    if (!candidates) {
+      throw new UnoPimApiError(
+        'INTERNAL_ERROR',
+        `No recorded fixture for ${description.label} in ${dir}`,
+        { request: description.request },
+        false
+      );
+    }
+
+    const index = Math.min(served.get(description.key) ?? 0, candidates.length - 1);
+    served.set(description.key, index + 1);
+
+    const { status, headers, body } = candidates[index].response;
+    const text = body === undefined ? '' : typeof body === 'string' ? body : JSON.stringify(body);
+    return new Response(status === 204 || status === 304 ? null : text, { status, headers });
+  };
+}
+
+/**
+ * Token provider for replay mode: fixtures carry no credentials, so any token will do
+ */
+export const replayTokenProvider: TokenProvider = {
+  getAccessToken: async () => 'replay',
+  clearCache: () => undefined,
+};
+
+/**
+ * Picks the transport for the configured fixture mode; undefined means plain fetch
+ */
+export function fixtureFetch(options: { recordDir?: string; replayDir?: string }): FetchFn | undefined {
+  if (options.replayDir) {
+    console.error(`Replaying UnoPim API responses from ${options.replayDir}`);
+    return createReplayFetch(options.replayDir);
+  }
+  if (options.recordDir) {
+    console.error(`Recording UnoPim API exchanges to ${options.recordDir}`);
+    return createRecordingFetch(options.recordDir);
+  }
+  return undefined;
+}
+
+/**
+ * Reads every fixture in dir, grouped by request key and ordered by occurrence
+ */
+export function loadFixtures(dir: string): Map<string, Fixture[]> {
+  const grouped = new Map<string, Fixture[]>();
+
+  for (const file of readdirSync(dir).filter(name => name.endsWith('.json')).sort()) {
+    const fixture = JSON.parse(readFileSync(join(dir, file), 'utf-8')) as Fixture;
+    if (fixture.fixture_version !== FIXTURE_VERSION || !fixture.key) {
+      continue;
+    }
+    const list = grouped.get(fixture.key) ?? [];
+    list.push(fixture);
+    grouped.set(fixture.key, list);
+  }
+
+  for (const list of grouped.values()) {
+    list.sort((a, b) => a.occurrence - b.occurrence);
+  }
+  return grouped;
+}
+
+// ============================================================================
+// Request Matching
+// ============================================================================
+
+/**
+ * Builds the scrubbed request record and its matching key (method, path, query, body)
+ * Bodies are compared by content: JSON with sorted keys, multipart forms by field values
+ * and file digests, so random multipart boundaries do not break matching
+ */
+async function describeRequest(url: string, init: RequestInit): Promise<RequestDescription> {
+  const method = (init.method ?? 'GET').toUpperCase();
+  const parsed = new URL(url);
+  const headers = new Headers(init.headers);
+
+  const query: Record<string, string | string[]> = {};
+  for (const name of [...new Set(parsed.searchParams.keys())].sort()) {
+    const values = parsed.searchParams.getAll(name);
+    query[name] = values.length === 1 ? values[0] : values;
+  }
+
+  let body: unknown;
+  let sendBody = init.body ?? undefined;
+  if (typeof init.body === 'string') {
+    body = scrub(parseText(init.body));
+  } else if (init.body != null) {
+    // Buffer streams and binary bodies once so they can be both described and sent
+    const bytes = new Uint8Array(await new Response(init.body).arrayBuffer());
+    sendBody = bytes;
+    body = await describeBinaryBody(bytes, headers.get('content-type'));
+  }
+
+  const requestHeaders: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    if (!IGNORED_REQUEST_HEADERS.has(name)) {
+      requestHeaders[name] = SECRET_KEY.test(name) ? REDACTED : value.replace(/boundary=.*/, 'boundary=*');
+    }
+  });
+
+  const request = { method, path: parsed.pathname, query, headers: requestHeaders, ...(body !== undefined && { body }) };
+  const key = createHash('sha256')
+    .update(stableStringify({ method, path: parsed.pathname, query, body }))
+    .digest('hex')
+    .slice(0, 16);
+
+  return { key, label: `${method} ${parsed.pathname}${parsed.search}`, request, sendBody };
+}
+
+async function describeBinaryBody(bytes: Uint8Array, contentType: string | null): Promise<unknown> {
+  if (contentType?.startsWith('multipart/form-data')) {
+    const form = await new Response(bytes, { headers: { 'content-type': contentType } }).formData();
+    const fields: Record<string, unknown> = {};
+    for (const [name, value] of form.entries()) {
+      fields[name] = typeof value === 'string'
+        ? (SECRET_KEY.test(name) ? REDACTED : value)
+        : { filename: value.name, size: value.size, sha256: digest(new Uint8Array(await value.arrayBuffer())) };
+    }
+    return { multipart: fields };
+  }
+  return { size: bytes.byteLength, sha256: digest(bytes) };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Replaces the values of secret-looking keys anywhere in a JSON value
+ */
+function scrub(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(scrub);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .map(([key, inner]) => [key, SECRET_KEY.test(key) ? REDACTED : scrub(inner)])
+    );
+  }
+  return value;
+}
+
+function pickResponseHeaders(headers: Headers): Record<string, string> {
+  const picked: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    if (KEPT_RESPONSE_HEADERS.test(name)) {
+      picked[name] = value;
+    }
+  });
+  return picked;
+}
+
+/**
+ * JSON text becomes a value (readable, diffable fixtures); anything else stays text
+ */
+function parseText(text: string): unknown {
+  if (text === '') {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, inner]) => inner !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, inner]) => `${JSON.stringify(key)}:${stableStringify(inner)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function digest(bytes: Uint8Array): string {
+  return createHash('sha256').update(bytes).digest('hex');
+}
+
+function fixtureFileName(fixture: Fixture): string {
+  const slug = fixture.request.path
+    .replace(/^\/api\/v1\/rest\//, '')
+    .replace(/[^a-zA-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 60) || 'root';
+  return `${fixture.request.method.toLowerCase()}-${slug}-${fixture.key}-${fixture.occurrence}.json`;
+}
@@ -0,0 +1,143 @@
+/**
+ * Request/response interceptors for UnoPimClient
+ * Cross-cutting behaviour (correlation ids, logging, metrics, header injection, response redaction)
+ * hooks into the request pipeline here instead of into the retry loop itself
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { UnoPimApiError } from '../types/errors.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RequestContext {
+  readonly id: string; // Stable across retries of the same logical request
+  readonly method: string;
+  readonly url: string;
+  readonly endpoint: string;
+  readonly attempt: number; // 1-based
+  readonly body: unknown; // JSON body or FormData; already encoded, so read-only
+  headers: Record<string, string>; // Mutable: changes are sent with this attempt
+  meta: Record<string, unknown>; // Scratch space shared by all hooks of the logical request
+}
+
+export interface ResponseContext {
+  readonly request: RequestContext;
+  readonly status: number;
+  readonly headers: Headers;
+  readonly durationMs: number; // This attempt only
+  data: unknown; // Parsed body; replace it to redact or reshape what callers receive
+}
+
+export interface ErrorContext {
+  readonly request: RequestContext;
+  readonly error: UnoPimApiError;
+  readonly durationMs: number;
+  readonly willRetry: boolean;
+  readonly retryDelay?: number; // Set when willRetry is true
+}
+
+/**
+ * onRequest runs before every attempt, onResponse once for the successful response,
+ * onError after every failed attempt (willRetry tells whether another attempt follows)
+ * Hooks run in registration order; a hook that throws fails the request without retrying
+ */
+export interface Interceptor {
+  name: string;
+  onRequest?(context: RequestContext): void | Promise<void>;
+  onResponse?(context: ResponseContext): void | Promise<void>;
+  onError?(context: ErrorContext): void | Promise<void>;
+}
+
+export interface RequestTiming {
+  id: string;
+  method: string;
+  endpoint: string;
+  attempt: number;
+  status?: number;
+  code?: string; // Error code for failed attempts
+  durationMs: number;
+}
+
+// ============================================================================
+// Built-in Interceptors
+// ============================================================================
+
+/**
+ * Sends the request id as a correlation header so client and server logs can be joined
+ * An id set explicitly by the caller is kept
+ */
+export function requestIdInterceptor(header = 'X-Request-Id'): Interceptor {
+  return {
+    name: 'request-id',
+    onRequest(context) {
+      const existing = Object.keys(context.headers).find(key => key.toLowerCase() === header.toLowerCase());
+      if (!existing) {
+        context.headers[header] = context.id;
+      }
+    },
+  };
+}
+
+/**
+ * Reports the duration and outcome of every attempt
+ * Defaults to one stderr line per attempt; pass a sink to feed metrics instead
+ */
+export function timingInterceptor(
+  sink: (timing: RequestTiming) => void = logTiming
+): Interceptor {
+  return {
+    name: 'timing',
+    onResponse({ request, status, durationMs }) {
+      sink({ id: request.id, method: request.method, endpoint: request.endpoint, attempt: request.attempt, status, durationMs });
+    },
+    onError({ request, error, durationMs }) {
+      sink({
+        id: request.id,
+        method: request.method,
+        endpoint: request.endpoint,
+        attempt: request.attempt,
+        status: error.statusCode,
+        code: error.code,
+        durationMs,
+      });
+    },
+  };
+}
+
+/**
+ * Logs retries to stderr (stdout belongs to the MCP stdio transport)
+ */
+export function retryLogInterceptor(): Interceptor {
+  return {
+    name: 'retry-log',
+    onError({ request, error, willRetry, retryDelay }) {
+      if (!willRetry) {
+        return;
+      }
+      if (error.code === 'AUTH_FAILED') {
+        console.error(`[${request.id}] Token expired, clearing cache and retrying...`);
+        return;
+      }
+      console.error(`[${request.id}] Request failed (attempt ${request.attempt}): ${error.message}, retrying in ${retryDelay}ms...`);
+    },
+  };
+}
+
+/**
+ * Interceptors a client gets when none are configured
+ */
+export function defaultInterceptors(): Interceptor[] {
+  return [requestIdInterceptor(), retryLogInterceptor()];
+}
+
+export function createRequestId(): string {
+  return randomUUID();
+}
+
+function logTiming(timing: RequestTiming): void {
+  const outcome = timing.code ? `${timing.code}${timing.status ? ` ${timing.status}` : ''}` : String(timing.status);
+  const attempt = timing.attempt > 1 ? ` (attempt ${timing.attempt})` : '';
+  console.error(`[${timing.id}] ${timing.method} ${timing.endpoint} ${outcome} in ${timing.durationMs}ms${attempt}`);
+}
@@ -0,0 +1,88 @@
+/**
+ * Client-side rate limiting for UnoPim API requests
+ * Token bucket that smooths bursts before Laravel's throttle middleware rejects them
+ */
+
+export interface RateLimitOptions {
+  requestsPerSecond: number; // 0 disables limiting
+  burst: number;
+}
+
+export class TokenBucket {
+  private readonly requestsPerSecond: number;
+  private readonly capacity: number;
+  private tokens: number;
+  private lastRefill: number;
+  private pausedUntil = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(options: RateLimitOptions) {
+    this.requestsPerSecond = options.requestsPerSecond;
+    this.capacity = Math.max(1, options.burst);
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Waits until a request may be sent
+   * Callers are served in FIFO order so a busy bulk import cannot starve other tools
+   */
+  acquire(): Promise<void> {
+    const next = this.queue.then(() => this.take());
+    // Keep the chain alive even if a waiter rejects
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Blocks all requests until the given timestamp (e.g. from Retry-After)
+   */
+  pauseUntil(timestamp: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, timestamp);
+  }
+
+  private async take(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+
+      if (now < this.pausedUntil) {
+        await this.sleep(this.pausedUntil - now);
+        continue;
+      }
+
+      if (this.requestsPerSecond <= 0) {
+        return;
+      }
+
+      this.refill(now);
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+
+      // Wait for the next token to become available
+      const waitMs = Math.ceil(((1 - this.tokens) / this.requestsPerSecond) * 1000);
+      await this.sleep(waitMs);
+    }
+  }
+
+  private refill(now: number): void {
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsedSeconds * this.requestsPerSecond);
+    this.lastRefill = now;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+/**
+ * Exponential backoff with jitter, capped at maxMs
+ * Waits between half and the full exponential step so concurrent retries spread out
+ * attempt is 1 for the first retry
+ */
+export function backoffDelay(attempt: number, baseMs: number, maxMs: number): number {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
@@ -0,0 +1,144 @@
+/**
+ * In-memory schema metadata cache for UnoPim
+ * Avoids refetching attributes, families, options, channels and locales on every tool call
+ */
+
+import type { UnoPimClient } from './unopim-client.js';
+import type { Attribute, AttributeOption, Family, Channel, Locale } from '../types/unopim.js';
+
+export type SchemaCacheKind = 'attribute' | 'family' | 'options' | 'channels' | 'locales';
+
+interface CacheEntry<T> {
+  expiresAt: number;
+  value: Promise<T>;
+}
+
+export class SchemaCache {
+  private client: UnoPimClient;
+  private ttlMs: number;
+  private entries: Map<string, CacheEntry<unknown>> = new Map();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(client: UnoPimClient, ttlMs: number) {
+    this.client = client;
+    this.ttlMs = ttlMs;
+  }
+
+  /**
+   * Gets a single attribute definition by code
+   */
+  getAttribute(code: string): Promise<Attribute> {
+    return this.cached('attribute', code, async () =>
+      unwrap(await this.client.get<Attribute | { data: Attribute }>(`/api/v1/rest/attributes/${code}`))
+    );
+  }
+
+  /**
+   * Gets a single family (with attribute groups) by code
+   */
+  getFamily(code: string): Promise<Family> {
+    return this.cached('family', code, async () =>
+      unwrap(await this.client.get<Family | { data: Family }>(`/api/v1/rest/families/${code}`))
+    );
+  }
+
+  /**
+   * Gets all options of a select/multiselect attribute
+   */
+  getAttributeOptions(attributeCode: string): Promise<AttributeOption[]> {
+    return this.cached('options', attributeCode, async () => {
+      // API returns array directly, not { data: [...] }
+      const response = await this.client.get<AttributeOption[] | { data?: AttributeOption[] }>(
+        `/api/v1/rest/attributes/${attributeCode}/options`
+      );
+      return Array.isArray(response) ? response : response.data || [];
+    });
+  }
+
+  /**
+   * Gets all channels
+   */
+  getChannels(): Promise<Channel[]> {
+    return this.cached('channels', '*', async () =>
+      (await this.client.getAll<Channel>('/api/v1/rest/channels')).items
+    );
+  }
+
+  /**
+   * Gets all locales
+   */
+  getLocales(): Promise<Locale[]> {
+    return this.cached('locales', '*', async () =>
+      (await this.client.getAll<Locale>('/api/v1/rest/locales')).items
+    );
+  }
+
+  /**
+   * Drops cached entries
+   * With no kind, clears everything; with a kind but no code, clears every entry of that kind
+   * @returns Number of entries removed
+   */
+  invalidate(kind?: SchemaCacheKind, code?: string): number {
+    let removed = 0;
+    for (const key of [...this.entries.keys()]) {
+      const [entryKind, entryCode] = splitKey(key);
+      if (kind && entryKind !== kind) continue;
+      if (code !== undefined && entryCode !== code) continue;
+      this.entries.delete(key);
+      removed++;
+    }
+    return removed;
+  }
+
+  /**
+   * Cache statistics (useful for debugging and the refresh tool)
+   */
+  stats(): { entries: number; hits: number; misses: number; ttl_seconds: number } {
+    return {
+      entries: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      ttl_seconds: Math.round(this.ttlMs / 1000),
+    };
+  }
+
+  private cached<T>(kind: SchemaCacheKind, code: string, loader: () => Promise<T>): Promise<T> {
+    const key = `${kind}:${code}`;
+    const now = Date.now();
+    const entry = this.entries.get(key) as CacheEntry<T> | undefined;
+
+    if (entry && entry.expiresAt > now) {
+      this.hits++;
+      return entry.value;
+    }
+
+    this.misses++;
+    // Cache the promise so concurrent callers share one request
+    const value = loader();
+    if (this.ttlMs > 0) {
+      this.entries.set(key, { expiresAt: now + this.ttlMs, value });
+      // Never cache failures
+      value.catch(() => {
+        if (this.entries.get(key)?.value === value) {
+          this.entries.delete(key);
+        }
+      });
+    }
+    return value;
+  }
+}
+
+/**
+ * Some endpoints wrap single resources in { data: ... }, others return them bare
+ */
+function unwrap<T extends object>(response: T | { data: T }): T {
+  return 'data' in response && response.data && typeof response.data === 'object' && !Array.isArray(response.data)
+    ? response.data as T
+    : response as T;
+}
+
+function splitKey(key: string): [string, string] {
+  const separator = key.indexOf(':');
+  return [key.slice(0, separator), key.slice(separator + 1)];
+}
@@ -3,18 +3,41 @@
  * Handles all API communication with UnoPim REST API
  */
 
-import type { OAuthManager } from '../auth/oauth.js';
+import type { TokenProvider } from '../types/oauth.js';
 import { UnoPimApiError } from '../types/errors.js';
+import { TokenBucket, backoffDelay, type RateLimitOptions } from './rate-limiter.js';
+import { parseRetryAfter } from '../utils/retry-after.js';
+import { SchemaCache } from './schema-cache.js';
+import {
+  createRequestId,
+  defaultInterceptors,
+  type Interceptor,
+  type RequestContext,
+  type ResponseContext,
+  type ErrorContext,
+} from './interceptors.js';
+import type { FetchFn } from './fixtures.js';
 
 export interface RequestOptions {
   method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
   body?: unknown;
+  multipart?: FormData; // Sent as multipart/form-data instead of a JSON body
   headers?: Record<string, string>;
   timeout?: number;
+  onUploadProgress?: (progress: UploadProgress) => void;
+}
+
+export interface UploadProgress {
+  loaded: number; // Bytes handed to the connection so far
+  total: number;
 }
 
 export interface PaginatedResponse<T> {
   data: T[];
+  // Some endpoints (e.g. attribute-groups) return Laravel's paginator fields at the top level
+  current_page?: number;
+  last_page?: number;
+  total?: number;
   meta?: {
     current_page: number;
     from: number;
@@ -31,17 +54,61 @@ export interface PaginatedResponse<T> {
   };
 }
 
+export interface PaginateOptions {
+  params?: Record<string, string | number | boolean | undefined>;
+  pageSize?: number;
+  maxItems?: number;
+}
+
+export interface UnoPimClientOptions {
+  rateLimit?: RateLimitOptions;
+  maxRetries?: number;
+  schemaCacheTtlMs?: number; // 0 disables schema caching
+  interceptors?: Interceptor[]; // Replaces the defaults (request id + retry logging)
+  fetch?: FetchFn; // Transport override, e.g. fixture record/replay
+}
+
+// Hard cap on items fetched when following pagination, to keep tool responses bounded
+export const MAX_PAGINATED_ITEMS = 10000;
+
+// Attempts per request unless configured otherwise (UNOPIM_MAX_RETRIES)
+export const DEFAULT_MAX_RETRIES = 5;
+
 export class UnoPimClient {
   private baseUrl: string;
-  private authManager: OAuthManager;
+  private authManager: TokenProvider;
+  private fetchFn: FetchFn;
+  private rateLimiter: TokenBucket;
+  private interceptors: Interceptor[];
+  readonly schemaCache: SchemaCache;
+  private readonly maxRetries: number;
   private readonly DEFAULT_TIMEOUT = 30000; // 30 seconds
-  private readonly MAX_RETRIES = 3;
-  private readonly RETRY_DELAYS = [0, 1000, 3000]; // immediate, 1s, 3s
+  private readonly UPLOAD_TIMEOUT = 120000; // 2 minutes for multipart uploads
+  private readonly RETRY_BASE_DELAY = 1000; // first backoff step, doubled per attempt
+  private readonly MAX_RETRY_DELAY = 60000; // give up rather than wait longer than this
+  private readonly DEFAULT_PAGE_SIZE = 100;
+  private readonly DEFAULT_SCHEMA_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
-  constructor(baseUrl: string, authManager: OAuthManager) {
+  constructor(baseUrl: string, authManager: TokenProvider, options: UnoPimClientOptions = {}) {
     // Normalize base URL (remove trailing slash)
     this.baseUrl = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
     this.authManager = authManager;
+    this.maxRetries = Math.max(1, options.maxRetries ?? DEFAULT_MAX_RETRIES);
+    this.rateLimiter = new TokenBucket(options.rateLimit ?? { requestsPerSecond: 0, burst: 1 });
+    this.schemaCache = new SchemaCache(this, options.schemaCacheTtlMs ?? this.DEFAULT_SCHEMA_CACHE_TTL);
+    this.interceptors = options.interceptors ?? defaultInterceptors();
+    this.fetchFn = options.fetch ?? fetch;
+  }
+
+  /**
+   * Registers an interceptor at the end of the chain
+   * Returns a function that removes it again
+   */
+  use(interceptor: Interceptor): () => void {
+    this.interceptors.push(interceptor);
+    return () => {
+      this.interceptors = this.interceptors.filter(registered => registered !== interceptor);
+    };
   }
 
   /**
@@ -81,21 +148,37 @@ export class UnoPimClient {
 
   /**
    * Makes a request to the UnoPim API with automatic retry and token refresh
+   * Multipart uploads are not idempotent, so they are only retried when the server cannot
+   * have processed them (see isSafeToRetry)
    */
   private async request<T>(endpoint: string, options: RequestOptions = {}): Promise<T> {
-    const { method = 'GET', body, headers = {}, timeout = this.DEFAULT_TIMEOUT } = options;
+    const { method = 'GET', body, multipart, headers = {}, timeout = this.DEFAULT_TIMEOUT, onUploadProgress } = options;
 
     // Normalize endpoint (ensure it starts with /)
     const normalizedEndpoint = endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
     const url = `${this.baseUrl}${normalizedEndpoint}`;
 
-    for (let attempt = 0; attempt < this.MAX_RETRIES; attempt++) {
+    // Encode the form once so every attempt sends the same bytes with a known length
+    const encoded = multipart ? await encodeMultipart(multipart) : undefined;
+    const safeRetryOnly = encoded !== undefined;
+
+    const requestId = createRequestId();
+    const meta: Record<string, unknown> = {};
+    let retryDelay = 0;
+
+    for (let attempt = 0; attempt < this.maxRetries; attempt++) {
+      let context: RequestContext | undefined;
+      let startedAt = Date.now();
+
       try {
         // Add delay for retries
         if (attempt > 0) {
-          await this.sleep(this.RETRY_DELAYS[attempt]);
+          await this.sleep(retryDelay);
         }
 
+        // Wait for the client-side rate limiter
+        await this.rateLimiter.acquire();
+
         // Get access token
         const accessToken = await this.authManager.getAccessToken();
 
@@ -107,53 +190,65 @@ export class UnoPimClient {
         };
 
         // Add Content-Type for requests with body
-        if (body !== undefined) {
+        if (encoded) {
+          requestHeaders['Content-Type'] = encoded.contentType;
+          requestHeaders['Content-Length'] = String(encoded.bytes.byteLength);
+        } else if (body !== undefined) {
           requestHeaders['Content-Type'] = 'application/json';
         }
 
+        context = {
+          id: requestId,
+          method,
+          url,
+          endpoint: normalizedEndpoint,
+          attempt: attempt + 1,
+          body: multipart ?? body,
+          headers: requestHeaders,
+          meta,
+        };
+        await this.runInterceptors('onRequest', context);
+
         // Create abort controller for timeout
         const controller = new AbortController();
         const timeoutId = setTimeout(() => controller.abort(), timeout);
+        startedAt = Date.now();
 
         try {
           // Make the request
-          const response = await fetch(url, {
+          const response = await this.fetchFn(url, {
             method,
-            headers: requestHeaders,
-            body: body !== undefined ? JSON.stringify(body) : undefined,
+            headers: context.headers,
+            body: encoded
+              ? (onUploadProgress ? progressStream(encoded.bytes, onUploadProgress) : encoded.bytes)
+              : body !== undefined ? JSON.stringify(body) : undefined,
             signal: controller.signal,
+            // Required by fetch for streamed request bodies
+            ...(encoded && onUploadProgress && { duplex: 'half' as const }),
           });
 
           clearTimeout(timeoutId);
 
-          // Handle 401 - token expired, try to refresh
-          if (response.status === 401 && attempt < this.MAX_RETRIES - 1) {
-            console.error('Token expired, clearing cache and retrying...');
-            this.authManager.clearCache();
-            continue; // Retry with new token
-          }
+          // Respect server-side throttling for every request, not just this one
+          this.applyRateLimitHeaders(response.headers);
 
-          // Handle non-OK responses
+          // Handle non-OK responses (including 401, which is retried in the catch below)
           if (!response.ok) {
-            const error = await UnoPimApiError.fromResponse(response);
-
-            // Retry if error is retryable and we have attempts left
-            if (error.retryPossible && attempt < this.MAX_RETRIES - 1) {
-              console.error(`Request failed (attempt ${attempt + 1}): ${error.message}, retrying...`);
-              continue;
-            }
-
-            throw error;
+            throw await UnoPimApiError.fromResponse(response);
           }
 
           // Handle 204 No Content
-          if (response.status === 204) {
-            return {} as T;
-          }
-
-          // Parse and return response
-          const data = await response.json() as T;
-          return data;
+          const data = response.status === 204 ? {} : await parseJsonBody<unknown>(response);
+
+          const responseContext: ResponseContext = {
+            request: context,
+            status: response.status,
+            headers: response.headers,
+            durationMs: Date.now() - startedAt,
+            data,
+          };
+          await this.runInterceptors('onResponse', responseContext);
+          return responseContext.data as T;
 
         } catch (error) {
           clearTimeout(timeoutId);
@@ -161,7 +256,7 @@ export class UnoPimClient {
           // Handle abort (timeout)
           if (error instanceof Error && error.name === 'AbortError') {
             throw new UnoPimApiError(
-              'NETWORK_ERROR',
+              'TIMEOUT',
               `Request timeout after ${timeout}ms`,
               error,
               true
@@ -172,22 +267,51 @@ export class UnoPimClient {
         }
 
       } catch (error) {
-        // If it's already a UnoPimApiError, check if we should retry
-        if (error instanceof UnoPimApiError) {
-          if (error.retryPossible && attempt < this.MAX_RETRIES - 1) {
-            console.error(`Request failed (attempt ${attempt + 1}): ${error.message}, retrying...`);
-            continue;
+        // Interceptor failures are not transport problems: fail at once without reporting them to onError
+        if (error instanceof InterceptorFailure) {
+          throw error.apiError;
+        }
+
+        const apiError = error instanceof UnoPimApiError ? error : UnoPimApiError.networkError(error);
+        let willRetry: boolean;
+
+        if (apiError.code === 'AUTH_FAILED' && apiError.statusCode === 401) {
+          // Token expired - clear the cache and retry at once with a new token
+          willRetry = attempt < this.maxRetries - 1;
+          if (willRetry) {
+            this.authManager.clearCache();
+            retryDelay = 0;
+          }
+        } else if (error instanceof UnoPimApiError) {
+          willRetry = this.shouldRetry(error, attempt, safeRetryOnly);
+          if (willRetry) {
+            retryDelay = this.getRetryDelay(attempt + 1, error);
+          }
+        } else {
+          // Network or other errors
+          willRetry = attempt < this.maxRetries - 1 && (!safeRetryOnly || isConnectError(error));
+          if (willRetry) {
+            retryDelay = this.getRetryDelay(attempt + 1);
           }
-          throw error;
         }
 
-        // Network or other errors
-        if (attempt < this.MAX_RETRIES - 1) {
-          console.error(`Network error (attempt ${attempt + 1}):`, error);
-          continue;
+        if (context) {
+          const errorContext: ErrorContext = {
+            request: context,
+            error: apiError,
+            durationMs: Date.now() - startedAt,
+            willRetry,
+            ...(willRetry && { retryDelay }),
+          };
+          await this.runInterceptors('onError', errorContext).catch((failure: InterceptorFailure) => {
+            throw failure.apiError;
+          });
         }
 
-        throw UnoPimApiError.networkError(error);
+        if (willRetry) {
+          continue;
+        }
+        throw apiError;
       }
     }
 
@@ -200,6 +324,98 @@ export class UnoPimClient {
     );
   }
 
+  /**
+   * Runs one hook of every registered interceptor in order
+   * A throwing hook is wrapped so the retry loop does not mistake it for a network error
+   */
+  private async runInterceptors<K extends 'onRequest' | 'onResponse' | 'onError'>(
+    hook: K,
+    context: Parameters<NonNullable<Interceptor[K]>>[0]
+  ): Promise<void> {
+    for (const interceptor of [...this.interceptors]) {
+      const fn = interceptor[hook] as ((context: unknown) => void | Promise<void>) | undefined;
+      if (!fn) {
+        continue;
+      }
+      try {
+        await fn.call(interceptor, context);
+      } catch (error) {
+        throw new InterceptorFailure(new UnoPimApiError(
+          'INTERNAL_ERROR',
+          `Interceptor '${interceptor.name}' failed in ${hook}: ${error instanceof Error ? error.message : String(error)}`,
+          error,
+          false
+        ));
+      }
+    }
+  }
+
+  /**
+   * Iterates over every item of a paginated list endpoint
+   * Follows meta.last_page / links.next until the last page or maxItems is reached
+   */
+  async *paginate<T>(endpoint: string, options: PaginateOptions = {}): AsyncGenerator<T, void, undefined> {
+    const { params = {}, pageSize = this.DEFAULT_PAGE_SIZE, maxItems = MAX_PAGINATED_ITEMS } = options;
+    let yielded = 0;
+
+    for (let page = 1; yielded < maxItems; page++) {
+      const url = this.buildUrl(endpoint, { ...params, page, limit: pageSize });
+      const response = await this.get<PaginatedResponse<T> | T[]>(url);
+
+      // Some endpoints return a plain array without pagination
+      const items = Array.isArray(response) ? response : response.data || [];
+      for (const item of items) {
+        if (yielded >= maxItems) {
+          return;
+        }
+        yield item;
+        yielded++;
+      }
+
+      if (Array.isArray(response) || !this.hasNextPage(response, page, items.length, pageSize)) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Collects all items of a paginated list endpoint, up to maxItems
+   * truncated is true when more items exist beyond the cap
+   */
+  async getAll<T>(endpoint: string, options: PaginateOptions = {}): Promise<{ items: T[]; truncated: boolean }> {
+    const maxItems = Math.min(options.maxItems ?? MAX_PAGINATED_ITEMS, MAX_PAGINATED_ITEMS);
+    const items: T[] = [];
+
+    // Fetch one extra item to detect whether the cap cut the result short
+    for await (const item of this.paginate<T>(endpoint, { ...options, maxItems: maxItems + 1 })) {
+      items.push(item);
+    }
+
+    const truncated = items.length > maxItems;
+    return { items: truncated ? items.slice(0, maxItems) : items, truncated };
+  }
+
+  /**
+   * Determines whether a paginated response has another page after the current one
+   */
+  private hasNextPage(response: PaginatedResponse<unknown>, page: number, itemCount: number, pageSize: number): boolean {
+    if (itemCount === 0) {
+      return false;
+    }
+
+    const lastPage = response.meta?.last_page ?? response.last_page;
+    if (lastPage !== undefined) {
+      return page < lastPage;
+    }
+
+    if (response.links) {
+      return Boolean(response.links.next);
+    }
+
+    // No pagination metadata - assume more pages while pages come back full
+    return itemCount >= pageSize;
+  }
+
   /**
    * Helper to build query string from parameters
    */
@@ -222,6 +438,42 @@ export class UnoPimClient {
     return `${endpoint}${queryString}`;
   }
 
+  /**
+   * Decides whether a failed attempt should be retried
+   * Errors whose server-requested wait exceeds MAX_RETRY_DELAY are surfaced immediately
+   */
+  private shouldRetry(error: UnoPimApiError, attempt: number, safeRetryOnly = false): boolean {
+    if (!error.retryPossible || attempt >= this.maxRetries - 1) {
+      return false;
+    }
+    if (safeRetryOnly && !isSafeToRetry(error)) {
+      return false;
+    }
+    return error.retryAfterMs === undefined || error.retryAfterMs <= this.MAX_RETRY_DELAY;
+  }
+
+  /**
+   * Computes the wait before the next attempt
+   * Uses the server's Retry-After / X-RateLimit-Reset when given, else jittered exponential backoff
+   */
+  private getRetryDelay(attempt: number, error?: UnoPimApiError): number {
+    if (error?.retryAfterMs !== undefined) {
+      // Never retry earlier than the server asked, but still spread concurrent retries out
+      return Math.min(this.MAX_RETRY_DELAY, error.retryAfterMs + Math.round(Math.random() * this.RETRY_BASE_DELAY));
+    }
+    return backoffDelay(attempt, this.RETRY_BASE_DELAY, this.MAX_RETRY_DELAY);
+  }
+
+  /**
+   * Pauses the rate limiter when the server reports an exhausted quota
+   */
+  private applyRateLimitHeaders(headers: Headers): void {
+    const waitMs = parseRetryAfter(headers);
+    if (waitMs !== undefined && waitMs > 0) {
+      this.rateLimiter.pauseUntil(Date.now() + Math.min(waitMs, this.MAX_RETRY_DELAY));
+    }
+  }
+
   /**
    * Sleep helper for retry delays
    */
@@ -238,47 +490,94 @@ export class UnoPimClient {
 
   /**
    * Makes a POST request with multipart/form-data (for file uploads)
+   * Goes through the same pipeline as JSON requests; uploads get a longer default timeout
    */
-  async postMultipart<T>(endpoint: string, formData: FormData): Promise<T> {
-    const normalizedEndpoint = endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
-    // Use /api/v1/rest base path for API calls
-    const url = `${this.baseUrl}/api/v1/rest${normalizedEndpoint}`;
-
-    for (let attempt = 0; attempt < this.MAX_RETRIES; attempt++) {
-      try {
-        if (attempt > 0) {
-          await this.sleep(this.RETRY_DELAYS[attempt]);
-        }
-
-        const accessToken = await this.authManager.getAccessToken();
+  async postMultipart<T>(
+    endpoint: string,
+    formData: FormData,
+    options?: Omit<RequestOptions, 'method' | 'body' | 'multipart'>
+  ): Promise<T> {
+    return this.request<T>(endpoint, {
+      timeout: this.UPLOAD_TIMEOUT,
+      ...options,
+      method: 'POST',
+      multipart: formData,
+    });
+  }
+}
 
-        const response = await fetch(url, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-            'Accept': 'application/json',
-            // Note: Don't set Content-Type for multipart - fetch will set it with boundary
-          },
-          body: formData,
-        });
-
-        if (response.status === 401 && attempt < this.MAX_RETRIES - 1) {
-          this.authManager.clearCache();
-          continue;
-        }
+/**
+ * Carries an interceptor error through the retry loop without triggering a retry
+ */
+class InterceptorFailure {
+  constructor(readonly apiError: UnoPimApiError) {}
+}
 
-        const data = await response.json() as T;
-        return data;
+/**
+ * Serializes a FormData body, returning the bytes and the Content-Type with its boundary
+ */
+async function encodeMultipart(formData: FormData): Promise<{ bytes: Uint8Array; contentType: string }> {
+  const encoded = new Response(formData);
+  return {
+    contentType: encoded.headers.get('content-type') ?? 'multipart/form-data',
+    bytes: new Uint8Array(await encoded.arrayBuffer()),
+  };
+}
 
-      } catch (error) {
-        if (attempt < this.MAX_RETRIES - 1) {
-          console.error(`Multipart request failed (attempt ${attempt + 1}):`, error);
-          continue;
-        }
-        throw error;
+/**
+ * Streams bytes in chunks, reporting how many have been pulled by the connection
+ */
+function progressStream(bytes: Uint8Array, onProgress: (progress: UploadProgress) => void): ReadableStream<Uint8Array> {
+  const CHUNK_SIZE = 64 * 1024;
+  let offset = 0;
+
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= bytes.byteLength) {
+        controller.close();
+        return;
       }
-    }
+      const chunk = bytes.subarray(offset, offset + CHUNK_SIZE);
+      offset += chunk.byteLength;
+      controller.enqueue(chunk);
+      onProgress({ loaded: offset, total: bytes.byteLength });
+    },
+  });
+}
 
-    throw new Error('Max retries exceeded for multipart upload');
+/**
+ * Parses a successful response as JSON
+ * A proxy or PHP error page with status 200 becomes a SERVER_ERROR instead of a SyntaxError
+ */
+async function parseJsonBody<T>(response: Response): Promise<T> {
+  const text = await response.text();
+  if (text.trim() === '') {
+    return {} as T;
+  }
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw new UnoPimApiError(
+      'SERVER_ERROR',
+      `Expected JSON but received ${response.headers.get('content-type') || 'an unknown content type'}`,
+      text,
+      false,
+      response.status
+    );
   }
 }
+
+/**
+ * Failures after which a non-idempotent request certainly was not processed
+ */
+function isSafeToRetry(error: UnoPimApiError): boolean {
+  return error.code === 'RATE_LIMITED' || error.code === 'AUTH_FAILED' || error.statusCode === 503;
+}
+
+/**
+ * Connection failures before anything was sent (refused, DNS)
+ */
+function isConnectError(error: unknown): boolean {
+  const code = (error as { cause?: { code?: unknown } } | undefined)?.cause?.code;
+  return code === 'ECONNREFUSED' || code === 'ENOTFOUND' || code === 'EAI_AGAIN';
+}
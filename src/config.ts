@@ -3,6 +3,8 @@
  * Reads and validates environment variables
  */
 
+import { DEFAULT_MAX_RETRIES } from './client/unopim-client.js';
+
 export interface UnoPimConfig {
   baseUrl: string;
   clientId: string;
@@ -12,6 +14,15 @@ export interface UnoPimConfig {
   defaultLocale: string;
   defaultChannel: string;
   defaultCurrency: string;
+  rateLimit: {
+    requestsPerSecond: number; // 0 disables client-side limiting
+    burst: number;
+  };
+  maxRetries: number;
+  schemaCacheTtlMs: number; // 0 disables schema caching
+  logRequests: boolean; // One stderr line per API request with status and duration
+  recordDir?: string; // Write every API exchange to this directory as JSON fixtures
+  replayDir?: string; // Serve API responses from fixtures in this directory, offline
 }
 
 /**
@@ -19,7 +30,14 @@ export interface UnoPimConfig {
  * @throws Error if required environment variables are missing
  */
 export function loadConfig(): UnoPimConfig {
-  const requiredVars = [
+  const recordDir = process.env.UNOPIM_RECORD_DIR || undefined;
+  const replayDir = process.env.UNOPIM_REPLAY_DIR || undefined;
+  if (recordDir && replayDir) {
+    throw new Error('UNOPIM_RECORD_DIR and UNOPIM_REPLAY_DIR cannot be used together');
+  }
+
+  // Replay never contacts UnoPim, so connection settings are optional there
+  const requiredVars = replayDir ? [] : [
     'UNOPIM_BASE_URL',
     'UNOPIM_CLIENT_ID',
     'UNOPIM_CLIENT_SECRET',
@@ -43,23 +61,65 @@ export function loadConfig(): UnoPimConfig {
   }
 
   // Normalize base URL (remove trailing slash)
-  let baseUrl = process.env.UNOPIM_BASE_URL!;
+  let baseUrl = process.env.UNOPIM_BASE_URL || 'http://unopim.replay';
   if (baseUrl.endsWith('/')) {
     baseUrl = baseUrl.slice(0, -1);
   }
 
   return {
     baseUrl,
-    clientId: process.env.UNOPIM_CLIENT_ID!,
-    clientSecret: process.env.UNOPIM_CLIENT_SECRET!,
-    username: process.env.UNOPIM_USERNAME!,
-    password: process.env.UNOPIM_PASSWORD!,
+    clientId: process.env.UNOPIM_CLIENT_ID || '',
+    clientSecret: process.env.UNOPIM_CLIENT_SECRET || '',
+    username: process.env.UNOPIM_USERNAME || '',
+    password: process.env.UNOPIM_PASSWORD || '',
     defaultLocale: process.env.UNOPIM_DEFAULT_LOCALE || 'en_US',
     defaultChannel: process.env.UNOPIM_DEFAULT_CHANNEL || 'default',
     defaultCurrency: process.env.UNOPIM_DEFAULT_CURRENCY || 'USD',
+    rateLimit: {
+      requestsPerSecond: parseNumber('UNOPIM_RATE_LIMIT_RPS', 10),
+      burst: parseNumber('UNOPIM_RATE_LIMIT_BURST', 20),
+    },
+    maxRetries: parseNumber('UNOPIM_MAX_RETRIES', DEFAULT_MAX_RETRIES),
+    schemaCacheTtlMs: parseNumber('UNOPIM_SCHEMA_CACHE_TTL', 300) * 1000,
+    logRequests: parseBoolean('UNOPIM_LOG_REQUESTS', false),
+    recordDir,
+    replayDir,
   };
 }
 
+/**
+ * Reads a non-negative numeric environment variable
+ * @throws Error if the variable is set but not a valid number
+ */
+function parseNumber(varName: string, defaultValue: number): number {
+  const raw = process.env[varName];
+  if (raw === undefined || raw === '') {
+    return defaultValue;
+  }
+
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`Invalid value for ${varName}: '${raw}' (expected a non-negative number)`);
+  }
+  return value;
+}
+
+/**
+ * Reads a boolean environment variable (true/false, 1/0, yes/no)
+ * @throws Error if the variable is set to anything else
+ */
+function parseBoolean(varName: string, defaultValue: boolean): boolean {
+  const raw = process.env[varName];
+  if (raw === undefined || raw === '') {
+    return defaultValue;
+  }
+
+  const normalized = raw.trim().toLowerCase();
+  if (['true', '1', 'yes'].includes(normalized)) return true;
+  if (['false', '0', 'no'].includes(normalized)) return false;
+  throw new Error(`Invalid value for ${varName}: '${raw}' (expected true or false)`);
+}
+
 /**
  * Validates that a URL is properly formed
  */
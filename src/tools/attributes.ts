@@ -1,11 +1,15 @@
 /**
  * Attribute management tools for UnoPim
- * Handles attribute creation and option management
+ * Handles attribute creation, updates, deletion and option management
  */
 
 import { z } from 'zod';
-import type { UnoPimClient } from '../client/unopim-client.js';
-import type { Attribute, AttributeOption, AttributeType } from '../types/unopim.js';
+import { MAX_PAGINATED_ITEMS, type UnoPimClient } from '../client/unopim-client.js';
+import { defineTool } from './registry.js';
+import { getFamilies } from './schema.js';
+import { isNotFound } from '../types/errors.js';
+import { listScopedValues, splitOptionCodes } from '../utils/product-values.js';
+import type { Attribute, AttributeOption, AttributeType, Product } from '../types/unopim.js';
 
 // ============================================================================
 // Input Schemas
@@ -27,43 +31,94 @@ const AttributeTypeSchema = z.enum([
 const ValidationRuleSchema = z.enum(['email', 'url', 'regexp', 'decimal', 'number']).nullable().optional();
 
 export const CreateAttributeInputSchema = z.object({
-  code: z.string().regex(/^[a-z0-9_]+$/, 'Code must be lowercase alphanumeric with underscores'),
-  type: AttributeTypeSchema,
+  code: z.string().regex(/^[a-z0-9_]+$/, 'Code must be lowercase alphanumeric with underscores')
+    .describe('Unique attribute code (lowercase, underscores allowed)'),
+  type: AttributeTypeSchema.describe('Attribute type. Use "text" with validation for number/decimal/email/url'),
   labels: z.record(z.string(), z.string()).refine(
     (labels) => Object.keys(labels).length > 0,
     'At least one label is required'
-  ),
+  ).describe('Labels by locale, e.g. { "en_US": "My Label" }'),
   is_required: z.boolean().optional().default(false),
   is_unique: z.boolean().optional().default(false),
-  is_configurable: z.boolean().optional().default(false),
+  is_configurable: z.boolean().optional().default(false)
+    .describe('Set true for attributes used in configurable products (e.g., color, size)'),
   value_per_locale: z.boolean().optional().default(false),
   value_per_channel: z.boolean().optional().default(false),
-  validation: ValidationRuleSchema,
-  regex_pattern: z.string().optional(),
+  validation: ValidationRuleSchema.describe('Validation rule for text fields. Use "decimal" for floats, "number" for integers'),
+  regex_pattern: z.string().optional().describe('Regex pattern if validation is regexp'),
   default_value: z.string().optional(),
   position: z.number().optional(),
-  enable_wysiwyg: z.boolean().optional(),
+  enable_wysiwyg: z.boolean().optional().describe('Enable WYSIWYG editor for textarea'),
+});
+
+// Code, type and scope flags cannot change once values exist, so they are not updatable
+export const UpdateAttributeInputSchema = z.object({
+  code: z.string().describe('The attribute code to update'),
+  labels: z.record(z.string(), z.string()).optional()
+    .describe('Labels to add or change by locale; merged into the existing labels'),
+  is_required: z.boolean().optional(),
+  is_unique: z.boolean().optional(),
+  is_configurable: z.boolean().optional(),
+  validation: ValidationRuleSchema.describe('New validation rule, or null to remove it'),
+  regex_pattern: z.string().optional().describe('Regex pattern (requires validation "regexp")'),
+  default_value: z.string().optional(),
+  position: z.number().optional(),
+  enable_wysiwyg: z.boolean().optional().describe('Enable WYSIWYG editor for textarea'),
+});
+
+export const DeleteAttributeInputSchema = z.object({
+  code: z.string().describe('The attribute code to delete'),
+  force: z.boolean().optional().default(false)
+    .describe('Delete even if families still reference the attribute'),
 });
 
 export const CreateAttributeOptionsInputSchema = z.object({
-  attribute_code: z.string(),
+  attribute_code: z.string().describe('The attribute code to add options to'),
   options: z.array(z.object({
-    code: z.string().regex(/^[a-z0-9_]+$/, 'Option code must be lowercase alphanumeric with underscores'),
+    code: z.string().regex(/^[a-z0-9_]+$/, 'Option code must be lowercase alphanumeric with underscores')
+      .describe('Option code - MUST be lowercase with underscores only (e.g., "black", "large", "navy_blue")'),
     sort_order: z.number().optional(),
     labels: z.record(z.string(), z.string()).refine(
       (labels) => Object.keys(labels).length > 0,
       'At least one label is required'
-    ),
+    ).describe('Labels for each locale'),
   })).min(1, 'At least one option is required'),
 });
 
 export const GetAttributeOptionsInputSchema = z.object({
-  attribute_code: z.string(),
+  attribute_code: z.string().describe('The attribute code (e.g., "color", "size")'),
+});
+
+export const UpdateAttributeOptionsInputSchema = z.object({
+  attribute_code: z.string().describe('The attribute code whose options to update'),
+  options: z.array(z.object({
+    code: z.string().describe('Existing option code'),
+    labels: z.record(z.string(), z.string()).optional()
+      .describe('Labels to add or change by locale; merged into the existing labels'),
+    sort_order: z.number().optional(),
+  })).optional().describe('Per-option label and sort_order changes'),
+  order: z.array(z.string()).optional()
+    .describe('Option codes in the desired order; sort_order is renumbered 1..n, unlisted options follow in their current order'),
+}).refine(
+  (input) => (input.options?.length ?? 0) > 0 || (input.order?.length ?? 0) > 0,
+  'Provide options and/or order'
+);
+
+export const DeleteAttributeOptionsInputSchema = z.object({
+  attribute_code: z.string().describe('The attribute code whose options to delete'),
+  codes: z.array(z.string()).min(1, 'At least one option code is required')
+    .describe('Option codes to delete'),
+  force: z.boolean().optional().default(false)
+    .describe('Delete even if products still use the options'),
 });
 
 export type CreateAttributeInput = z.infer<typeof CreateAttributeInputSchema>;
+export type UpdateAttributeInput = z.infer<typeof UpdateAttributeInputSchema>;
+export type DeleteAttributeInput = z.infer<typeof DeleteAttributeInputSchema>;
 export type CreateAttributeOptionsInput = z.infer<typeof CreateAttributeOptionsInputSchema>;
 export type GetAttributeOptionsInput = z.infer<typeof GetAttributeOptionsInputSchema>;
+export type UpdateAttributeOptionsInput = z.infer<typeof UpdateAttributeOptionsInputSchema>;
+export type DeleteAttributeOptionsInput = z.infer<typeof DeleteAttributeOptionsInputSchema>;
 
 // ============================================================================
 // Tool Implementations
@@ -120,13 +175,139 @@ export async function createAttribute(
       attributeData
     );
 
+    client.schemaCache.invalidate('attribute', input.code);
+
     return {
       success: true,
       attribute: response.data,
       message: `Attribute '${input.code}' created successfully`,
     };
   } catch (error) {
-    throw new Error(`Failed to create attribute: ${error}`);
+    throw new Error(`Failed to create attribute: ${error}`, { cause: error });
+  }
+}
+
+/**
+ * unopim_update_attribute
+ * Partially updates an attribute; labels are merged with the existing ones
+ */
+export async function updateAttribute(
+  client: UnoPimClient,
+  input: UpdateAttributeInput
+): Promise<{
+  success: boolean;
+  attribute: Attribute;
+  updated_fields: string[];
+  message?: string;
+}> {
+  try {
+    // Always start from the live definition so merged labels are current
+    client.schemaCache.invalidate('attribute', input.code);
+    const current = await client.schemaCache.getAttribute(input.code);
+
+    const { code, labels, ...changes } = input;
+    const attributeData: Record<string, unknown> = {
+      labels: { ...current.labels, ...labels },
+    };
+    const updatedFields = labels ? ['labels'] : [];
+
+    for (const [field, value] of Object.entries(changes)) {
+      if (value !== undefined) {
+        attributeData[field] = value;
+        updatedFields.push(field);
+      }
+    }
+
+    if (updatedFields.length === 0) {
+      throw new Error('Nothing to update - provide at least one field besides code');
+    }
+
+    const validation = input.validation !== undefined ? input.validation : current.validation;
+    if (input.regex_pattern && validation !== 'regexp') {
+      throw new Error('regex_pattern requires validation "regexp"');
+    }
+
+    if (input.enable_wysiwyg !== undefined && current.type !== 'textarea') {
+      throw new Error(`enable_wysiwyg only applies to textarea attributes ('${code}' is ${current.type})`);
+    }
+
+    const response = await client.put<{ data?: Attribute }>(
+      `/api/v1/rest/attributes/${code}`,
+      attributeData
+    );
+
+    client.schemaCache.invalidate('attribute', code);
+
+    return {
+      success: true,
+      attribute: response.data || { ...current, ...attributeData } as Attribute,
+      updated_fields: updatedFields,
+      message: `Attribute '${code}' updated successfully`,
+    };
+  } catch (error) {
+    throw new Error(`Failed to update attribute '${input.code}': ${error}`, { cause: error });
+  }
+}
+
+/**
+ * unopim_delete_attribute
+ * Deletes an attribute, refusing while families still reference it unless forced
+ */
+export async function deleteAttribute(
+  client: UnoPimClient,
+  input: DeleteAttributeInput
+): Promise<{
+  success: boolean;
+  referenced_by_families?: string[];
+  message: string;
+}> {
+  if (input.code === 'sku') {
+    throw new Error(`Failed to delete attribute 'sku': the sku attribute is required by UnoPim`);
+  }
+
+  try {
+    const { families, pagination } = await getFamilies(client, { limit: 100, page: 1, all: true });
+    if (pagination.truncated && !input.force) {
+      return {
+        success: false,
+        message: `More than ${MAX_PAGINATED_ITEMS} families exist, so family usage of '${input.code}' cannot be checked completely; nothing was deleted. Pass force=true to delete anyway`,
+      };
+    }
+    const referencedBy = families
+      .filter(family => (family.attribute_groups || []).some(group =>
+        (group.custom_attributes || []).some(attr => attr.code === input.code)
+      ))
+      .map(family => family.code);
+
+    if (referencedBy.length > 0 && !input.force) {
+      return {
+        success: false,
+        referenced_by_families: referencedBy,
+        message: `Attribute '${input.code}' is still used by ${referencedBy.length} family(ies): ${referencedBy.join(', ')}. Remove it from those families first or pass force=true`,
+      };
+    }
+
+    await client.delete(`/api/v1/rest/attributes/${input.code}`);
+
+    client.schemaCache.invalidate('attribute', input.code);
+    client.schemaCache.invalidate('options', input.code);
+    for (const familyCode of referencedBy) {
+      client.schemaCache.invalidate('family', familyCode);
+    }
+
+    return {
+      success: true,
+      ...(referencedBy.length > 0 && { referenced_by_families: referencedBy }),
+      message: `Attribute '${input.code}' deleted successfully`,
+    };
+  } catch (error) {
+    if (isNotFound(error)) {
+      return {
+        success: false,
+        message: `Attribute '${input.code}' not found`,
+      };
+    }
+    throw new Error(`Failed to delete attribute '${input.code}': ${error}`, { cause: error });
   }
 }
 
@@ -157,6 +338,8 @@ export async function createAttributeOptions(
       optionsPayload
     );
 
+    client.schemaCache.invalidate('options', input.attribute_code);
+
     return {
       success: true,
       created_count: input.options.length,
@@ -164,7 +347,7 @@ export async function createAttributeOptions(
       message: `Created ${input.options.length} options for attribute '${input.attribute_code}'`,
     };
   } catch (error) {
-    throw new Error(`Failed to create attribute options: ${error}`);
+    throw new Error(`Failed to create attribute options: ${error}`, { cause: error });
   }
 }
 
@@ -181,13 +364,7 @@ export async function getAttributeOptions(
   total: number;
 }> {
   try {
-    // API returns array directly, not { data: [...] }
-    const response = await client.get<AttributeOption[]>(
-      `/api/v1/rest/attributes/${input.attribute_code}/options`
-    );
-
-    // Handle both array response and wrapped response
-    const options = Array.isArray(response) ? response : (response as any).data || [];
+    const options = await client.schemaCache.getAttributeOptions(input.attribute_code);
 
     return {
       attribute_code: input.attribute_code,
@@ -195,6 +372,328 @@ export async function getAttributeOptions(
       total: options.length,
     };
   } catch (error) {
-    throw new Error(`Failed to get attribute options for '${input.attribute_code}': ${error}`);
+    throw new Error(`Failed to get attribute options for '${input.attribute_code}': ${error}`, { cause: error });
+  }
+}
+
+/**
+ * unopim_update_attribute_options
+ * Merges label translations, changes sort_order and reorders options in one request
+ */
+export async function updateAttributeOptions(
+  client: UnoPimClient,
+  input: UpdateAttributeOptionsInput
+): Promise<{
+  success: boolean;
+  updated_count: number;
+  options: AttributeOption[];
+  message?: string;
+}> {
+  try {
+    client.schemaCache.invalidate('options', input.attribute_code);
+    const current = await client.schemaCache.getAttributeOptions(input.attribute_code);
+    const byCode = new Map(current.map(opt => [opt.code, { ...opt, labels: { ...opt.labels } }]));
+
+    const requested = [...(input.options || []).map(opt => opt.code), ...(input.order || [])];
+    const unknown = [...new Set(requested.filter(code => !byCode.has(code)))];
+    if (unknown.length > 0) {
+      throw new Error(
+        `Unknown option code(s) for attribute '${input.attribute_code}': ${unknown.join(', ')} (option codes are case-sensitive)`
+      );
+    }
+
+    const changed = new Set<string>();
+
+    if (input.order) {
+      const listed = [...new Set(input.order)];
+      const unlisted = current
+        .filter(opt => !listed.includes(opt.code))
+        .sort((a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0))
+        .map(opt => opt.code);
+
+      [...listed, ...unlisted].forEach((code, index) => {
+        const option = byCode.get(code)!;
+        if (option.sort_order !== index + 1) {
+          option.sort_order = index + 1;
+          changed.add(code);
+        }
+      });
+    }
+
+    // Explicit per-option changes win over the renumbering above
+    for (const update of input.options || []) {
+      const option = byCode.get(update.code)!;
+      if (update.labels) {
+        Object.assign(option.labels, update.labels);
+      }
+      if (update.sort_order !== undefined) {
+        option.sort_order = update.sort_order;
+      }
+      changed.add(update.code);
+    }
+
+    const optionsPayload = [...changed].map(code => byCode.get(code)!);
+
+    if (optionsPayload.length > 0) {
+      await client.put(
+        `/api/v1/rest/attributes/${input.attribute_code}/options`,
+        optionsPayload
+      );
+      client.schemaCache.invalidate('options', input.attribute_code);
+    }
+
+    return {
+      success: true,
+      updated_count: optionsPayload.length,
+      options: optionsPayload,
+      message: optionsPayload.length > 0
+        ? `Updated ${optionsPayload.length} options for attribute '${input.attribute_code}'`
+        : `Options for attribute '${input.attribute_code}' are already in the requested state`,
+    };
+  } catch (error) {
+    throw new Error(`Failed to update attribute options: ${error}`, { cause: error });
+  }
+}
+
+/**
+ * unopim_delete_attribute_options
+ * Deletes options, refusing while products still use them unless forced
+ * Usage is found by scanning product values, since the API has no reverse lookup
+ */
+export async function deleteAttributeOptions(
+  client: UnoPimClient,
+  input: DeleteAttributeOptionsInput
+): Promise<{
+  success: boolean;
+  deleted: string[];
+  failed?: Array<{ code: string; error: string }>;
+  in_use?: Record<string, { product_count: number; sample_skus: string[] }>;
+  warnings?: string[];
+  message: string;
+}> {
+  try {
+    client.schemaCache.invalidate('options', input.attribute_code);
+    const existing = new Set(
+      (await client.schemaCache.getAttributeOptions(input.attribute_code)).map(opt => opt.code)
+    );
+    const unknown = input.codes.filter(code => !existing.has(code));
+    if (unknown.length > 0) {
+      throw new Error(
+        `Unknown option code(s) for attribute '${input.attribute_code}': ${unknown.join(', ')} (option codes are case-sensitive)`
+      );
+    }
+
+    const warnings: string[] = [];
+    let usage = new Map<string, { product_count: number; sample_skus: string[] }>();
+    try {
+      usage = await findOptionUsage(client, input.attribute_code, input.codes);
+    } catch (error) {
+      // An incomplete scan cannot prove the options are unused
+      if (!input.force) {
+        return {
+          success: false,
+          deleted: [],
+          message: `Could not check all products for usage (${error}); nothing was deleted. Retry, or pass force=true to delete anyway`,
+        };
+      }
+      warnings.push(`Usage check did not complete (${error}); deleting because force=true`);
+    }
+
+    const inUse: Record<string, { product_count: number; sample_skus: string[] }> = {};
+
+    for (const [code, found] of usage) {
+      inUse[code] = found;
+      warnings.push(`Option '${code}' is still used by ${found.product_count} product(s)`);
+    }
+
+    if (usage.size > 0 && !input.force) {
+      return {
+        success: false,
+        deleted: [],
+        in_use: inUse,
+        warnings,
+        message: `Options still in use: ${[...usage.keys()].join(', ')}. Change those products first or pass force=true`,
+      };
+    }
+
+    const deleted: string[] = [];
+    const failed: Array<{ code: string; error: string }> = [];
+
+    for (const code of input.codes) {
+      try {
+        await client.delete(`/api/v1/rest/attributes/${input.attribute_code}/options/${code}`);
+        deleted.push(code);
+      } catch (error) {
+        failed.push({ code, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    client.schemaCache.invalidate('options', input.attribute_code);
+
+    return {
+      success: failed.length === 0,
+      deleted,
+      ...(failed.length > 0 && { failed }),
+      ...(usage.size > 0 && { in_use: inUse }),
+      ...(warnings.length > 0 && { warnings }),
+      message: `Deleted ${deleted.length} of ${input.codes.length} options from attribute '${input.attribute_code}'`,
+    };
+  } catch (error) {
+    throw new Error(`Failed to delete attribute options: ${error}`, { cause: error });
+  }
+}
+
+/**
+ * Scans product values for the given option codes of one attribute
+ * Streams the whole catalog without an item cap, so a product past any cap cannot hide a usage;
+ * only counts and sample SKUs are kept, so memory does not grow with the catalog
+ * @returns Product count and sample SKUs per option code that is in use
+ */
+async function findOptionUsage(
+  client: UnoPimClient,
+  attributeCode: string,
+  optionCodes: string[]
+): Promise<Map<string, { product_count: number; sample_skus: string[] }>> {
+  const wanted = new Set(optionCodes);
+  const usage = new Map<string, { product_count: number; sample_skus: string[] }>();
+
+  for await (const product of client.paginate<Product>('/api/v1/rest/products', {
+    maxItems: Number.POSITIVE_INFINITY,
+  })) {
+    const found = new Set<string>();
+    for (const { code, value } of listScopedValues((product.values || {}) as Record<string, unknown>)) {
+      if (code !== attributeCode) continue;
+      for (const optionCode of splitOptionCodes(value)) {
+        if (wanted.has(optionCode)) found.add(optionCode);
+      }
+    }
+    for (const optionCode of found) {
+      const entry = usage.get(optionCode) ?? { product_count: 0, sample_skus: [] };
+      entry.product_count++;
+      if (entry.sample_skus.length < 10) entry.sample_skus.push(product.sku);
+      usage.set(optionCode, entry);
+    }
   }
+
+  return usage;
 }
+
+// ============================================================================
+// Tool Definitions
+// ============================================================================
+
+export const attributeTools = [
+  defineTool({
+    name: 'unopim_create_attribute',
+    description: `Create a new attribute in UnoPim.
+
+IMPORTANT - Attribute Types:
+- type must be one of: text, textarea, boolean, price, select, multiselect, image
+- For NUMBER/INTEGER fields: use type="text" with validation="number"
+- For DECIMAL/FLOAT fields: use type="text" with validation="decimal"
+- For EMAIL fields: use type="text" with validation="email"
+- For URL fields: use type="text" with validation="url"
+- For DATE fields: use type="text" (dates are stored as text)
+
+Example for decimal attribute:
+{
+  "code": "weight",
+  "type": "text",
+  "validation": "decimal",
+  "labels": { "en_US": "Weight" }
+}`,
+    inputSchema: CreateAttributeInputSchema,
+    handler: createAttribute,
+  }),
+  defineTool({
+    name: 'unopim_update_attribute',
+    description: `Update an existing attribute. Only the fields you pass are changed.
+
+- labels are MERGED: { "de_DE": "Gewicht" } adds/changes German and keeps other locales
+- validation: "email", "url", "regexp", "decimal", "number", or null to remove
+- regex_pattern requires validation "regexp"
+- enable_wysiwyg only applies to textarea attributes
+- code, type, value_per_locale and value_per_channel cannot be changed`,
+    inputSchema: UpdateAttributeInputSchema,
+    handler: updateAttribute,
+  }),
+  defineTool({
+    name: 'unopim_delete_attribute',
+    description: `Delete an attribute.
+
+Refuses (success=false, referenced_by_families) while any family still contains the attribute.
+Remove it from those families with unopim_update_family first, or pass force=true.`,
+    inputSchema: DeleteAttributeInputSchema,
+    handler: deleteAttribute,
+  }),
+  defineTool({
+    name: 'unopim_create_attribute_options',
+    description: `Create options for select/multiselect attributes.
+
+🔴 CRITICAL: Option codes MUST be lowercase with underscores only!
+Pattern: /^[a-z0-9_]+$/
+
+Example:
+{
+  "attribute_code": "color",
+  "options": [
+    { "code": "black", "labels": { "da_DK": "Sort", "en_US": "Black" }, "sort_order": 1 },
+    { "code": "white", "labels": { "da_DK": "Hvid", "en_US": "White" }, "sort_order": 2 },
+    { "code": "navy_blue", "labels": { "da_DK": "Marineblå", "en_US": "Navy Blue" }, "sort_order": 3 }
+  ]
+}
+
+⚠️ When you later create variants, use the EXACT same code:
+✅ CORRECT: { "color": "black" }
+❌ WRONG:   { "color": "Black" }  ← Uppercase = WILL FAIL!
+❌ WRONG:   { "color": "Sort" }   ← This is the LABEL, not the CODE!
+
+VALID: lowercase letters, numbers, underscores (black, size_xl, color_01)
+INVALID: uppercase, spaces, special chars (Black, Size XL, Color-01)`,
+    inputSchema: CreateAttributeOptionsInputSchema,
+    handler: createAttributeOptions,
+  }),
+  defineTool({
+    name: 'unopim_get_attribute_options',
+    description: `Get all options for a select/multiselect attribute.
+
+⚠️ ALWAYS call this BEFORE using option values in products/variants!
+Option codes are always lowercase - use them exactly as returned.
+
+Use this to:
+1. Check which options already exist
+2. Get the EXACT code values to use in products/variants (e.g., "black", "navy_blue")
+3. Verify correct lowercase format before creating variants`,
+    inputSchema: GetAttributeOptionsInputSchema,
+    handler: getAttributeOptions,
+  }),
+  defineTool({
+    name: 'unopim_update_attribute_options',
+    description: `Update existing options of a select/multiselect attribute.
+
+- labels are MERGED per option: add a new locale or fix a typo without resending the others
+- sort_order can be set per option
+- order: give option codes in the desired order to renumber sort_order 1..n in one call
+  (options you leave out keep their relative order after the listed ones)
+
+Example:
+{
+  "attribute_code": "color",
+  "options": [{ "code": "navy_blue", "labels": { "de_DE": "Marineblau" } }],
+  "order": ["black", "white", "navy_blue"]
+}
+
+Option codes cannot be changed - create a new option and delete the old one instead.`,
+    inputSchema: UpdateAttributeOptionsInputSchema,
+    handler: updateAttributeOptions,
+  }),
+  defineTool({
+    name: 'unopim_delete_attribute_options',
+    description: `Delete options from a select/multiselect attribute.
+
+Scans products first. If any product still uses one of the options, nothing is deleted and
+the result lists in_use with product counts and sample SKUs. Pass force=true to delete anyway.`,
+    inputSchema: DeleteAttributeOptionsInputSchema,
+    handler: deleteAttributeOptions,
+  }),
+];
@@ -1,37 +1,97 @@
 /**
  * Category management tools for UnoPim
- * Handles category retrieval and creation
+ * Handles category retrieval, creation, updates, moves and deletion
  */
 
 import { z } from 'zod';
-import type { UnoPimClient } from '../client/unopim-client.js';
-import type { Category, ListResponse } from '../types/unopim.js';
+import { MAX_PAGINATED_ITEMS, type UnoPimClient } from '../client/unopim-client.js';
+import { defineTool } from './registry.js';
+import { runWithConcurrency } from '../utils/concurrency.js';
+import { toCode, shortHash } from '../utils/codes.js';
+import { isNotFound } from '../types/errors.js';
+import type { Category, CategoryTreeNode, ListResponse, Product } from '../types/unopim.js';
 
 // ============================================================================
 // Input Schemas
 // ============================================================================
 
 export const GetCategoriesInputSchema = z.object({
-  parent_code: z.string().optional(),
+  parent_code: z.string().optional().describe('Filter by parent category code'),
   limit: z.number().optional().default(100),
   page: z.number().optional().default(1),
+  all: z.boolean().optional().default(false).describe('Fetch every page (up to the hard item cap) instead of a single page'),
 });
 
 export const CreateCategoryInputSchema = z.object({
-  code: z.string().regex(/^[a-z0-9_]+$/, 'Code must be lowercase alphanumeric with underscores'),
-  parent: z.string().optional(),
+  code: z.string().regex(/^[a-z0-9_]+$/, 'Code must be lowercase alphanumeric with underscores')
+    .describe('Unique category code'),
+  parent: z.string().optional().describe('Parent category code. Use "root" or omit for top-level'),
   labels: z.record(z.string(), z.string()).refine(
     (labels) => Object.keys(labels).length > 0,
     'At least one label is required'
-  ),
+  ).describe('Labels by locale, e.g. { "en_US": "Category Name" }'),
   additional_data: z.object({
     common: z.record(z.string(), z.unknown()).optional(),
     locale_specific: z.record(z.string(), z.record(z.string(), z.unknown())).optional(),
-  }).optional(),
+  }).optional().describe('Additional category fields (locale_specific, etc.)'),
+});
+
+const AdditionalDataSchema = z.object({
+  common: z.record(z.string(), z.unknown()).optional(),
+  locale_specific: z.record(z.string(), z.record(z.string(), z.unknown())).optional(),
+});
+
+export const UpdateCategoryInputSchema = z.object({
+  code: z.string().describe('Category code to update'),
+  labels: z.record(z.string(), z.string()).optional()
+    .describe('Labels to add or change by locale; merged into the existing labels'),
+  additional_data: AdditionalDataSchema.optional()
+    .describe('Fields to add or change; merged per section (and per locale) into the existing data'),
+}).refine(
+  (input) => input.labels !== undefined || input.additional_data !== undefined,
+  'Provide labels and/or additional_data'
+);
+
+export const MoveCategoryInputSchema = z.object({
+  code: z.string().describe('Category code to move'),
+  new_parent: z.string().describe('Code of the new parent category (use "root" for top-level)'),
+});
+
+const DeletePolicySchema = z.enum(['refuse', 'cascade']).optional().default('refuse');
+
+export const DeleteCategoryInputSchema = z.object({
+  code: z.string().describe('Category code to delete'),
+  children: DeletePolicySchema
+    .describe('"refuse" (default): fail if the category has children; "cascade": delete all descendants too'),
+  products: DeletePolicySchema
+    .describe('"refuse" (default): fail if products are assigned; "cascade": unassign them first'),
+});
+
+export const EnsureCategoryPathsInputSchema = z.object({
+  paths: z.array(z.string()).min(1, 'At least one path is required')
+    .describe('Category paths, e.g. ["Clothing > Men > Shirts", "Clothing > Women"]'),
+  separator: z.string().min(1).optional().default('>').describe('Separator between path segments'),
+  locale: z.string().optional().default('en_US').describe('Locale for labels of created categories and for matching existing ones'),
+  root: z.string().optional().default('root').describe('Category the paths start under'),
+  dry_run: z.boolean().optional().default(false).describe('Only report what would be created'),
+});
+
+export const GetCategoryTreeInputSchema = z.object({
+  root: z.string().optional().describe('Return only the subtree under this category code (default: whole tree)'),
+  max_depth: z.number().int().min(0).optional().describe('Deepest level to include (0 = only the top nodes)'),
+  locales: z.array(z.string()).optional().describe('Only include labels for these locales (default: all)'),
+  format: z.enum(['json', 'text', 'both']).optional().default('json')
+    .describe('"text" gives a compact indented outline, handy as LLM context'),
+  text_locale: z.string().optional().default('en_US').describe('Locale used for labels in the text outline'),
 });
 
 export type GetCategoriesInput = z.infer<typeof GetCategoriesInputSchema>;
 export type CreateCategoryInput = z.infer<typeof CreateCategoryInputSchema>;
+export type UpdateCategoryInput = z.infer<typeof UpdateCategoryInputSchema>;
+export type MoveCategoryInput = z.infer<typeof MoveCategoryInputSchema>;
+export type DeleteCategoryInput = z.infer<typeof DeleteCategoryInputSchema>;
+export type EnsureCategoryPathsInput = z.infer<typeof EnsureCategoryPathsInputSchema>;
+export type GetCategoryTreeInput = z.infer<typeof GetCategoryTreeInputSchema>;
 
 // ============================================================================
 // Tool Implementations
@@ -46,6 +106,7 @@ export async function getCategories(
   input: GetCategoriesInput
 ): Promise<{
   categories: Category[];
+  truncated?: boolean;
 }> {
   try {
     const params: Record<string, string | number> = {
@@ -57,6 +118,17 @@ export async function getCategories(
       params.parent = input.parent_code;
     }
 
+    if (input.all) {
+      const { items, truncated } = await client.getAll<Category>('/api/v1/rest/categories', {
+        params: input.parent_code ? { parent: input.parent_code } : {},
+        pageSize: input.limit,
+      });
+      return {
+        categories: items,
+        truncated,
+      };
+    }
+
     const url = client.buildUrl('/api/v1/rest/categories', params);
     const response = await client.get<ListResponse<Category>>(url);
 
@@ -64,7 +136,7 @@ export async function getCategories(
       categories: response.data || [],
     };
   } catch (error) {
-    throw new Error(`Failed to fetch categories: ${error}`);
+    throw new Error(`Failed to fetch categories: ${error}`, { cause: error });
   }
 }
 
@@ -103,6 +175,589 @@ export async function createCategory(
       category: response.data,
     };
   } catch (error) {
-    throw new Error(`Failed to create category: ${error}`);
+    throw new Error(`Failed to create category: ${error}`, { cause: error });
+  }
+}
+
+/**
+ * unopim_update_category
+ * Merges labels and additional_data into an existing category
+ */
+export async function updateCategory(
+  client: UnoPimClient,
+  input: UpdateCategoryInput
+): Promise<{
+  success: boolean;
+  category: Category;
+}> {
+  try {
+    const current = await fetchCategory(client, input.code);
+
+    const additionalData = current.additional_data || {};
+    const localeSpecific = { ...additionalData.locale_specific };
+    for (const [locale, fields] of Object.entries(input.additional_data?.locale_specific || {})) {
+      localeSpecific[locale] = { ...localeSpecific[locale], ...fields };
+    }
+
+    const category: Category = {
+      ...current,
+      labels: { ...current.labels, ...input.labels },
+      additional_data: {
+        ...additionalData,
+        common: { ...additionalData.common, ...input.additional_data?.common },
+        locale_specific: localeSpecific,
+      },
+    };
+
+    return {
+      success: true,
+      category: await saveCategory(client, category),
+    };
+  } catch (error) {
+    throw new Error(`Failed to update category '${input.code}': ${error}`, { cause: error });
   }
 }
+
+/**
+ * unopim_move_category
+ * Re-parents a category, refusing moves that would create a cycle
+ */
+export async function moveCategory(
+  client: UnoPimClient,
+  input: MoveCategoryInput
+): Promise<{
+  success: boolean;
+  category: Category;
+  old_parent: string | null;
+  message: string;
+}> {
+  try {
+    if (input.new_parent === input.code) {
+      throw new Error(`Category '${input.code}' cannot be its own parent`);
+    }
+
+    const { items } = await client.getAll<Category>('/api/v1/rest/categories');
+    const parents = buildParentMap(items);
+
+    if (!parents.has(input.code)) {
+      throw new Error(`Category '${input.code}' not found`);
+    }
+    if (input.new_parent !== 'root' && !parents.has(input.new_parent)) {
+      throw new Error(`Parent category '${input.new_parent}' not found`);
+    }
+
+    // Walking up from the new parent must never reach the category being moved
+    const ancestors = getAncestors(parents, input.new_parent);
+    if (ancestors.includes(input.code)) {
+      throw new Error(
+        `Cannot move '${input.code}' under '${input.new_parent}': '${input.new_parent}' is inside '${input.code}' ` +
+        `(path: ${[...ancestors.slice(0, ancestors.indexOf(input.code) + 1).reverse(), input.new_parent].join(' > ')})`
+      );
+    }
+
+    const current = await fetchCategory(client, input.code);
+    const oldParent = current.parent ?? null;
+
+    if (oldParent === input.new_parent) {
+      return {
+        success: true,
+        category: current,
+        old_parent: oldParent,
+        message: `Category '${input.code}' is already under '${input.new_parent}'`,
+      };
+    }
+
+    const category = await saveCategory(client, { ...current, parent: input.new_parent });
+
+    return {
+      success: true,
+      category,
+      old_parent: oldParent,
+      message: `Moved '${input.code}' from '${oldParent ?? 'none'}' to '${input.new_parent}'`,
+    };
+  } catch (error) {
+    throw new Error(`Failed to move category '${input.code}': ${error}`, { cause: error });
+  }
+}
+
+/**
+ * unopim_delete_category
+ * Deletes a category with a refuse-or-cascade policy for children and product assignments
+ */
+export async function deleteCategory(
+  client: UnoPimClient,
+  input: DeleteCategoryInput
+): Promise<{
+  success: boolean;
+  deleted: string[];
+  unassigned_products?: string[];
+  failed?: Array<{ code: string; error: string }>;
+  children?: string[];
+  products?: string[];
+  message: string;
+}> {
+  if (input.code === 'root') {
+    throw new Error(`Failed to delete category 'root': the root category cannot be deleted`);
+  }
+
+  try {
+    const { items, truncated } = await client.getAll<Category>('/api/v1/rest/categories');
+    if (truncated) {
+      return {
+        success: false,
+        deleted: [],
+        message: `More than ${MAX_PAGINATED_ITEMS} categories exist, so descendants of '${input.code}' cannot be determined reliably; nothing was deleted`,
+      };
+    }
+    const parents = buildParentMap(items);
+
+    if (!parents.has(input.code)) {
+      return {
+        success: false,
+        deleted: [],
+        message: `Category '${input.code}' not found`,
+      };
+    }
+
+    // Deepest first, so every category is childless by the time it is deleted
+    const descendants = getDescendants(parents, input.code);
+    if (descendants.length > 0 && input.children === 'refuse') {
+      return {
+        success: false,
+        deleted: [],
+        children: descendants,
+        message: `Category '${input.code}' has ${descendants.length} descendant(s). Move them first or pass children="cascade"`,
+      };
+    }
+
+    const removed = new Set([input.code, ...descendants]);
+    // Stream the whole catalog without an item cap and keep only the assigned products:
+    // a product past any cap would otherwise keep pointing at deleted category codes
+    const assigned: Product[] = [];
+    for await (const product of client.paginate<Product>('/api/v1/rest/products', {
+      maxItems: Number.POSITIVE_INFINITY,
+    })) {
+      if ((product.values?.categories || []).some(code => removed.has(code))) {
+        assigned.push(product);
+      }
+    }
+
+    if (assigned.length > 0 && input.products === 'refuse') {
+      return {
+        success: false,
+        deleted: [],
+        products: assigned.slice(0, 50).map(product => product.sku),
+        message: `${assigned.length} product(s) are assigned to '${input.code}' or its descendants. ` +
+          `Reassign them first or pass products="cascade"`,
+      };
+    }
+
+    const failed: Array<{ code: string; error: string }> = [];
+
+    const unassignments = await runWithConcurrency(assigned, async (product) => {
+      await client.patch(`/api/v1/rest/products/${encodeURIComponent(product.sku)}`, {
+        values: { categories: (product.values.categories || []).filter(code => !removed.has(code)) },
+      });
+      return product.sku;
+    }, { concurrency: 4 });
+
+    const unassigned: string[] = [];
+    unassignments.forEach((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        unassigned.push(outcome.value);
+      } else if (outcome.status === 'rejected') {
+        failed.push({ code: assigned[index].sku, error: String(outcome.reason) });
+      }
+    });
+
+    if (failed.length > 0) {
+      return {
+        success: false,
+        deleted: [],
+        unassigned_products: unassigned,
+        failed,
+        message: `Could not unassign ${failed.length} product(s); no categories were deleted`,
+      };
+    }
+
+    const deleted: string[] = [];
+    for (const code of [...descendants, input.code]) {
+      try {
+        await client.delete(`/api/v1/rest/categories/${code}`);
+        deleted.push(code);
+      } catch (error) {
+        if (isNotFound(error)) continue;
+        failed.push({ code, error: String(error) });
+        break; // A parent cannot be deleted while its child still exists
+      }
+    }
+
+    return {
+      success: failed.length === 0,
+      deleted,
+      ...(unassigned.length > 0 && { unassigned_products: unassigned }),
+      ...(failed.length > 0 && { failed }),
+      message: failed.length === 0
+        ? `Deleted ${deleted.length} category(ies)${unassigned.length > 0 ? ` and unassigned ${unassigned.length} product(s)` : ''}`
+        : `Deleted ${deleted.length} category(ies) before failing on '${failed[0].code}'`,
+    };
+  } catch (error) {
+    throw new Error(`Failed to delete category '${input.code}': ${error}`, { cause: error });
+  }
+}
+
+/**
+ * unopim_ensure_category_paths
+ * Resolves "A > B > C" paths to category codes, creating missing nodes top-down
+ * Codes are derived from the full path (clothing, clothing_men, clothing_men_shirts) so the
+ * same path always maps to the same code and equal names under different parents never clash
+ */
+export async function ensureCategoryPaths(
+  client: UnoPimClient,
+  input: EnsureCategoryPathsInput
+): Promise<{
+  success: boolean;
+  paths: Record<string, string>;
+  created: Array<{ path: string; code: string; parent: string }>;
+  reused_count: number;
+  failed?: Array<{ path: string; error: string }>;
+  dry_run?: boolean;
+}> {
+  try {
+    const { items } = await client.getAll<Category>('/api/v1/rest/categories');
+    const codes = new Set(items.map(category => category.code));
+    const childrenByParent = groupByParent(items);
+
+    const resolved = new Map<string, string>(); // normalized path prefix -> code
+    const paths: Record<string, string> = {};
+    const created: Array<{ path: string; code: string; parent: string }> = [];
+    const reused = new Set<string>();
+    const failed: Array<{ path: string; error: string }> = [];
+
+    for (const path of input.paths) {
+      const segments = path.split(input.separator).map(segment => segment.trim()).filter(Boolean);
+      if (segments.length === 0) {
+        failed.push({ path, error: 'Path has no segments' });
+        continue;
+      }
+
+      try {
+        let parent = input.root;
+        for (let depth = 0; depth < segments.length; depth++) {
+          const label = segments[depth];
+          const prefix = segments.slice(0, depth + 1).join(' > ');
+          const key = prefix.toLowerCase();
+
+          let code = resolved.get(key);
+          if (!code) {
+            const baseCode = toCode(segments.slice(0, depth + 1).join(' '), 'category');
+            const existing = findChild(childrenByParent.get(parent) || [], label, baseCode, input.locale);
+
+            if (existing) {
+              code = existing.code;
+              reused.add(code);
+            } else {
+              // The derived code may already belong to a category elsewhere in the tree
+              code = codes.has(baseCode) ? `${baseCode}_${shortHash(prefix)}` : baseCode;
+              const category: Category = { code, parent, labels: { [input.locale]: label } };
+
+              if (!input.dry_run) {
+                await createCategory(client, { code, parent, labels: category.labels });
+              }
+
+              codes.add(code);
+              childrenByParent.set(parent, [...(childrenByParent.get(parent) || []), category]);
+              created.push({ path: prefix, code, parent });
+            }
+            resolved.set(key, code);
+          }
+          parent = code;
+        }
+        paths[path] = parent;
+      } catch (error) {
+        failed.push({ path, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return {
+      success: failed.length === 0,
+      paths,
+      created,
+      reused_count: reused.size,
+      ...(failed.length > 0 && { failed }),
+      ...(input.dry_run && { dry_run: true }),
+    };
+  } catch (error) {
+    throw new Error(`Failed to ensure category paths: ${error}`, { cause: error });
+  }
+}
+
+/**
+ * unopim_get_category_tree
+ * Builds the nested category tree (or a subtree) from a single paginated listing
+ */
+export async function getCategoryTree(
+  client: UnoPimClient,
+  input: GetCategoryTreeInput
+): Promise<{
+  tree?: CategoryTreeNode[];
+  text?: string;
+  total: number;
+  depth: number;
+  truncated?: boolean;
+}> {
+  try {
+    const { items, truncated } = await client.getAll<Category>('/api/v1/rest/categories');
+    const known = new Set(items.map(category => category.code));
+    const childrenByParent = groupByParent(items);
+
+    let tops: Category[];
+    if (input.root) {
+      const root = items.find(category => category.code === input.root);
+      if (!root) {
+        throw new Error(`Category '${input.root}' not found`);
+      }
+      tops = [root];
+    } else {
+      // Top nodes have no parent, or a parent outside the listing
+      tops = items.filter(category => !category.parent || !known.has(category.parent));
+    }
+
+    let total = 0;
+    let deepest = 0;
+    const visited = new Set<string>();
+
+    const build = (category: Category, depth: number): CategoryTreeNode => {
+      visited.add(category.code);
+      total++;
+      deepest = Math.max(deepest, depth);
+
+      const labels = input.locales
+        ? Object.fromEntries(Object.entries(category.labels || {}).filter(([locale]) => input.locales!.includes(locale)))
+        : category.labels || {};
+
+      const children = input.max_depth !== undefined && depth >= input.max_depth
+        ? []
+        : (childrenByParent.get(category.code) || [])
+          .filter(child => !visited.has(child.code)) // guard against cyclic data
+          .map(child => build(child, depth + 1));
+
+      return { ...category, labels, depth, children };
+    };
+
+    const tree = tops.map(category => build(category, 0));
+
+    return {
+      ...(input.format !== 'text' && { tree }),
+      ...(input.format !== 'json' && { text: renderCategoryTree(tree, input.text_locale) }),
+      total,
+      depth: deepest,
+      ...(truncated && { truncated }),
+    };
+  } catch (error) {
+    throw new Error(`Failed to fetch category tree: ${error}`, { cause: error });
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Groups categories by parent code ('' for categories without a parent)
+ */
+function groupByParent(categories: Category[]): Map<string, Category[]> {
+  const childrenByParent = new Map<string, Category[]>();
+  for (const category of categories) {
+    const parent = category.parent ?? '';
+    childrenByParent.set(parent, [...(childrenByParent.get(parent) || []), category]);
+  }
+  return childrenByParent;
+}
+
+/**
+ * Compact outline, one category per line: "  - Shirts [clothing_men_shirts]"
+ */
+function renderCategoryTree(nodes: CategoryTreeNode[], locale: string): string {
+  const lines: string[] = [];
+  const walk = (node: CategoryTreeNode): void => {
+    const label = node.labels?.[locale] || Object.values(node.labels || {})[0];
+    lines.push(`${'  '.repeat(node.depth)}- ${label && label !== node.code ? `${label} [${node.code}]` : node.code}`);
+    node.children.forEach(walk);
+  };
+  nodes.forEach(walk);
+  return lines.join('\n');
+}
+
+/**
+ * Finds an existing child matching a path segment by label (case-insensitive) or derived code
+ */
+function findChild(children: Category[], label: string, code: string, locale: string): Category | undefined {
+  const wanted = label.toLowerCase();
+  return children.find(child => child.labels?.[locale]?.toLowerCase() === wanted)
+    ?? children.find(child => child.code === code)
+    ?? children.find(child => Object.values(child.labels || {}).some(l => l.toLowerCase() === wanted));
+}
+
+async function fetchCategory(client: UnoPimClient, code: string): Promise<Category> {
+  const response = await client.get<Category | { data: Category }>(`/api/v1/rest/categories/${code}`);
+  return 'data' in response ? response.data : response;
+}
+
+/**
+ * PUTs a full category; the API replaces labels and additional_data wholesale
+ */
+async function saveCategory(client: UnoPimClient, category: Category): Promise<Category> {
+  const categoryData: Record<string, unknown> = {
+    code: category.code,
+    labels: category.labels,
+  };
+
+  if (category.parent) {
+    categoryData.parent = category.parent;
+  }
+
+  if (category.additional_data) {
+    categoryData.additional_data = category.additional_data;
+  }
+
+  const response = await client.put<{ data?: Category }>(
+    `/api/v1/rest/categories/${category.code}`,
+    categoryData
+  );
+  return response.data || category;
+}
+
+/**
+ * Maps every category code to its parent code (null for top-level categories)
+ */
+function buildParentMap(categories: Category[]): Map<string, string | null> {
+  return new Map(categories.map(category => [category.code, category.parent ?? null]));
+}
+
+/**
+ * Parent chain from the direct parent up to the top, stopping if the data itself has a cycle
+ */
+function getAncestors(parents: Map<string, string | null>, code: string): string[] {
+  const ancestors: string[] = [];
+  let current = parents.get(code) ?? null;
+  while (current !== null && !ancestors.includes(current)) {
+    ancestors.push(current);
+    current = parents.get(current) ?? null;
+  }
+  return ancestors;
+}
+
+/**
+ * All descendants of a category, deepest first
+ */
+function getDescendants(parents: Map<string, string | null>, code: string): string[] {
+  const levels: string[][] = [];
+  let frontier = [code];
+  const seen = new Set(frontier);
+
+  while (frontier.length > 0) {
+    const next = [...parents]
+      .filter(([child, parent]) => parent !== null && frontier.includes(parent) && !seen.has(child))
+      .map(([child]) => child);
+    next.forEach(child => seen.add(child));
+    if (next.length > 0) levels.push(next);
+    frontier = next;
+  }
+
+  return levels.reverse().flat();
+}
+
+// ============================================================================
+// Tool Definitions
+// ============================================================================
+
+export const categoryTools = [
+  defineTool({
+    name: 'unopim_get_categories',
+    description: `Fetch category tree with optional parent filtering.
+
+Set all=true to fetch every page (capped at ${MAX_PAGINATED_ITEMS} items; truncated reports when the cap was hit).`,
+    inputSchema: GetCategoriesInputSchema,
+    handler: getCategories,
+  }),
+  defineTool({
+    name: 'unopim_get_category_tree',
+    description: `Get the whole category tree (or the subtree under root) in one call.
+
+Each node has code, labels, depth and nested children. Options:
+- max_depth: cut the tree at this depth (0 = top nodes only)
+- locales: only keep labels in these locales
+- format: "json" (default), "text" for a compact outline, or "both"
+
+Text outline example:
+- Clothing [clothing]
+  - Men [clothing_men]
+    - Shirts [clothing_men_shirts]`,
+    inputSchema: GetCategoryTreeInputSchema,
+    handler: getCategoryTree,
+  }),
+  defineTool({
+    name: 'unopim_create_category',
+    description: `Create a new category in the product catalog.
+
+Example:
+{
+  "code": "electronics",
+  "parent": "root",
+  "labels": { "en_US": "Electronics" },
+  "additional_data": {
+    "locale_specific": { "en_US": { "description": "Electronic products" } }
+  }
+}
+
+NOTE: Use "root" or omit parent for top-level categories`,
+    inputSchema: CreateCategoryInputSchema,
+    handler: createCategory,
+  }),
+  defineTool({
+    name: 'unopim_update_category',
+    description: `Update a category's labels and/or additional_data.
+
+Both are MERGED into the existing values: { "labels": { "de_DE": "Hemden" } } adds German
+and keeps other locales. additional_data.locale_specific is merged per locale.
+To change the parent use unopim_move_category.`,
+    inputSchema: UpdateCategoryInputSchema,
+    handler: updateCategory,
+  }),
+  defineTool({
+    name: 'unopim_move_category',
+    description: `Move a category (with its whole subtree) under a new parent.
+
+Refuses moves that would create a cycle, e.g. moving "clothing" under its own child "shirts".
+Use new_parent "root" to move a category to the top level.`,
+    inputSchema: MoveCategoryInputSchema,
+    handler: moveCategory,
+  }),
+  defineTool({
+    name: 'unopim_delete_category',
+    description: `Delete a category.
+
+Policies (default "refuse" for both):
+- children: "refuse" fails if the category has subcategories; "cascade" deletes the whole subtree
+- products: "refuse" fails if products are assigned to the category (or its subtree);
+  "cascade" removes the category from those products first
+
+A refusal returns success=false with the blocking children or product SKUs.`,
+    inputSchema: DeleteCategoryInputSchema,
+    handler: deleteCategory,
+  }),
+  defineTool({
+    name: 'unopim_ensure_category_paths',
+    description: `Make sure category paths exist and get their codes.
+
+Takes paths like "Clothing > Men > Shirts", reuses existing categories (matched by label or code
+under the same parent) and creates missing ones top-down. Codes are derived from the full path:
+"Clothing" -> clothing, "Clothing > Men" -> clothing_men, "Clothing > Men > Shirts" -> clothing_men_shirts
+
+Returns paths: { "<path>": "<leaf category code>" } - use those codes in product values.categories.
+Set dry_run=true to preview what would be created.`,
+    inputSchema: EnsureCategoryPathsInputSchema,
+    handler: ensureCategoryPaths,
+  }),
+];
@@ -0,0 +1,1157 @@
+/**
+ * Datamodel tools for UnoPim
+ * Infers datamodels from sample product data and keeps instances in sync with datamodel files
+ */
+
+import { z } from 'zod';
+import { readFile } from 'node:fs/promises';
+import { parse as parseYaml } from 'yaml';
+import type { UnoPimClient } from '../client/unopim-client.js';
+import { defineTool } from './registry.js';
+import { getSchema } from './schema.js';
+import {
+  createAttribute, updateAttribute, deleteAttribute,
+  createAttributeOptions, updateAttributeOptions, deleteAttributeOptions,
+  CreateAttributeInputSchema, UpdateAttributeInputSchema,
+  CreateAttributeOptionsInputSchema, UpdateAttributeOptionsInputSchema,
+} from './attributes.js';
+import {
+  createAttributeGroup, updateAttributeGroup, deleteAttributeGroup,
+  CreateAttributeGroupInputSchema, UpdateAttributeGroupInputSchema,
+} from './groups.js';
+import {
+  createFamily,
+  updateFamily,
+  deleteFamily,
+  CreateFamilyInputSchema,
+  UpdateFamilyInputSchema,
+  type UpdateFamilyInput,
+} from './families.js';
+import {
+  createCategory, updateCategory, moveCategory, deleteCategory,
+  CreateCategoryInputSchema, UpdateCategoryInputSchema,
+} from './categories.js';
+import { toCode, shortHash } from '../utils/codes.js';
+import { readTable, type Cell } from '../utils/tabular.js';
+import { resolveFilePath } from '../utils/files.js';
+import type {
+  Attribute, AttributeGroup, AttributeOption, AttributeType, FamilyAttributeGroup, ValidationRule,
+} from '../types/unopim.js';
+
+// ============================================================================
+// Input Schemas
+// ============================================================================
+
+export const ProposeDatamodelInputSchema = z.object({
+  rows: z.array(z.record(z.string(), z.unknown())).optional()
+    .describe('Sample rows as objects keyed by column name'),
+  path: z.string().optional().describe('CSV, XLSX or JSONL file with sample rows, relative to the server files directory (instead of rows)'),
+  max_rows: z.number().int().min(1).optional().default(1000).describe('Maximum rows to read from the file'),
+  family_code: z.string().regex(/^[a-z0-9_]+$/, 'Code must be lowercase alphanumeric with underscores').optional()
+    .describe('Code for the proposed family (default: derived from family_label or "imported_products")'),
+  family_label: z.string().optional().describe('Label for the proposed family'),
+  locale: z.string().optional().default('en_US').describe('Locale for proposed labels'),
+  max_options: z.number().int().min(2).optional().default(50)
+    .describe('Columns with at most this many distinct values can become select/multiselect'),
+}).refine(
+  (input) => (input.rows !== undefined) !== (input.path !== undefined),
+  'Provide either rows or path'
+);
+
+export type ProposeDatamodelInput = z.infer<typeof ProposeDatamodelInputSchema>;
+
+const CodeSchema = z.string().regex(/^[a-z0-9_]+$/, 'Code must be lowercase alphanumeric with underscores');
+const LabelsSchema = z.record(z.string(), z.string());
+
+// Datamodel file format: the API shapes, minus anything UnoPim generates
+// Fields left out of an entry are not managed and never show up as changes
+export const DatamodelSchema = z.object({
+  attribute_groups: z.array(z.object({
+    code: CodeSchema,
+    labels: LabelsSchema.optional(),
+    position: z.number().optional(),
+  })).optional().default([]),
+  attributes: z.array(z.object({
+    code: CodeSchema,
+    type: z.enum(['text', 'textarea', 'boolean', 'price', 'select', 'multiselect', 'image']),
+    labels: LabelsSchema.optional(),
+    is_required: z.boolean().optional(),
+    is_unique: z.boolean().optional(),
+    is_configurable: z.boolean().optional(),
+    value_per_locale: z.boolean().optional(),
+    value_per_channel: z.boolean().optional(),
+    validation: z.enum(['email', 'url', 'regexp', 'decimal', 'number']).nullable().optional(),
+    regex_pattern: z.string().optional(),
+    default_value: z.string().optional(),
+    position: z.number().optional(),
+    enable_wysiwyg: z.boolean().optional(),
+    options: z.array(z.object({
+      code: CodeSchema,
+      labels: LabelsSchema.optional(),
+      sort_order: z.number().optional(),
+    })).optional().describe('Complete option list; with prune, live options not listed are deleted'),
+  })).optional().default([]),
+  families: z.array(z.object({
+    code: CodeSchema,
+    labels: LabelsSchema.optional(),
+    attribute_groups: z.array(z.object({
+      code: z.string(),
+      custom_attributes: z.array(z.union([z.string(), z.object({ code: z.string(), position: z.number().optional() })]))
+        .describe('Attribute codes in order (or { code, position })'),
+    })).describe('Complete group/attribute layout of the family, in order'),
+  })).optional().default([]),
+  categories: z.array(z.object({
+    code: CodeSchema,
+    parent: z.string().nullable().optional().describe('Parent code; null for a top-level category'),
+    labels: LabelsSchema.optional(),
+  })).optional().default([]),
+});
+
+const DatamodelSourceShape = {
+  path: z.string().optional().describe('Datamodel file (.json, .yaml or .yml), relative to the server files directory'),
+  datamodel: DatamodelSchema.optional().describe('Inline datamodel (instead of path)'),
+  prune: z.boolean().optional().default(false)
+    .describe('Also delete live entities missing from the datamodel (attributes, options, groups, families, non-root categories)'),
+};
+
+const hasOneSource = (input: { path?: string; datamodel?: unknown }): boolean =>
+  (input.path !== undefined) !== (input.datamodel !== undefined);
+
+export const PlanDatamodelInputSchema = z.object(DatamodelSourceShape)
+  .refine(hasOneSource, 'Provide either path or datamodel');
+
+export const ApplyDatamodelInputSchema = z.object({
+  ...DatamodelSourceShape,
+  expected_plan_id: z.string().optional()
+    .describe('plan_id from unopim_plan_datamodel; refuses to apply if the live diff has changed since'),
+  stop_on_error: z.boolean().optional().default(true)
+    .describe('Stop at the first failed change (later changes usually depend on earlier ones)'),
+}).refine(hasOneSource, 'Provide either path or datamodel');
+
+export type Datamodel = z.infer<typeof DatamodelSchema>;
+export type PlanDatamodelInput = z.infer<typeof PlanDatamodelInputSchema>;
+export type ApplyDatamodelInput = z.infer<typeof ApplyDatamodelInputSchema>;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ProposedAttribute {
+  code: string;
+  type: AttributeType;
+  validation?: ValidationRule;
+  labels: Record<string, string>;
+  value_per_locale: boolean;
+  value_per_channel: boolean;
+  is_required: boolean;
+  is_unique: boolean;
+  enable_wysiwyg?: boolean;
+  group: string;
+  options?: AttributeOption[];
+  source_columns: string[];
+  fill_rate: number; // Share of sample rows with a value, 0..1
+  exists: boolean; // An attribute with this code already exists in UnoPim
+  reasons: string[];
+}
+
+export type DatamodelEntity = 'attribute_group' | 'attribute' | 'attribute_option' | 'category' | 'family';
+
+export interface DatamodelChange {
+  action: 'create' | 'update' | 'delete';
+  entity: DatamodelEntity;
+  code: string;
+  attribute?: string; // Owning attribute of an option
+  fields?: string[]; // Changed fields of an update
+  payload?: Record<string, unknown>;
+}
+
+export interface DatamodelPlan {
+  plan_id: string;
+  changes: DatamodelChange[];
+  summary: { create: number; update: number; delete: number };
+  conflicts: string[];
+  text: string;
+}
+
+interface ColumnInfo {
+  header: string;
+  base: string; // Header without its locale marker
+  locale?: string;
+  values: string[]; // Non-empty values as text
+}
+
+// Proposed groups, in family order
+const GROUPS: Array<{ code: string; label: string }> = [
+  { code: 'general', label: 'General' },
+  { code: 'marketing', label: 'Marketing' },
+  { code: 'technical', label: 'Technical' },
+  { code: 'prices', label: 'Prices' },
+  { code: 'media', label: 'Media' },
+];
+
+const BOOLEAN_TOKENS = new Set(['true', 'false', 'yes', 'no', 'y', 'n', '0', '1', 'ja', 'nej', 'nein', 'on', 'off']);
+const PRICE_HINT = /price|pris|preis|prix|cost|msrp|rrp|amount|beløb/i;
+const LOCALE_MARKER = /^(.*?)[\s\-_(\[]+([a-z]{2}_[A-Z]{2})[)\]]?$/;
+const SKU_HEADERS = new Set(['sku', 'item_number', 'varenummer', 'artikelnummer', 'product_id']);
+
+// ============================================================================
+// Tool Implementations
+// ============================================================================
+
+/**
+ * unopim_propose_datamodel
+ * Analyses sample rows and proposes attributes, options, groups and a family
+ * Nothing is created; the result is meant for review before using the create tools
+ */
+export async function proposeDatamodel(
+  client: UnoPimClient,
+  input: ProposeDatamodelInput
+): Promise<{
+  row_count: number;
+  attributes: ProposedAttribute[];
+  groups: Array<AttributeGroup & { exists: boolean }>;
+  family: {
+    code: string;
+    labels: Record<string, string>;
+    attribute_groups: Array<{ code: string; position: number; custom_attributes: Array<{ code: string; position: number }> }>;
+  };
+  column_mapping: Record<string, string | { attribute: string; locale: string }>;
+  warnings: string[];
+}> {
+  try {
+    const rows = input.rows ?? await readSampleRows(input.path!, input.max_rows);
+    if (rows.length === 0) {
+      throw new Error('No sample rows to analyse');
+    }
+
+    // The exists flags drive what apply creates, so a failed lookup fails the proposal
+    const [existingAttributes, existingGroups] = await Promise.all([
+      client.getAll<Attribute>('/api/v1/rest/attributes'),
+      client.getAll<AttributeGroup>('/api/v1/rest/attribute-groups'),
+    ]);
+    const attributesByCode = new Map(existingAttributes.items.map(attr => [attr.code, attr]));
+
+    const warnings: string[] = [];
+    if (existingAttributes.truncated || existingGroups.truncated) {
+      warnings.push('Not all existing attributes and groups could be listed - some "exists" flags may be wrong');
+    }
+    const columns = collectColumns(rows);
+    const columnMapping: Record<string, string | { attribute: string; locale: string }> = {};
+    const attributes: ProposedAttribute[] = [];
+
+    // Columns that differ only by locale marker become one localizable attribute
+    const byBase = new Map<string, ColumnInfo[]>();
+    for (const column of columns) {
+      const key = toCode(column.base, 'attribute');
+      byBase.set(key, [...(byBase.get(key) || []), column]);
+    }
+
+    for (const [code, group] of byBase) {
+      if (SKU_HEADERS.has(code)) {
+        group.forEach(column => { columnMapping[column.header] = 'sku'; });
+        continue;
+      }
+
+      const proposal = inferAttribute(code, group, rows.length, input);
+      const existing = attributesByCode.get(code);
+      proposal.exists = existing !== undefined;
+      if (existing && existing.type !== proposal.type) {
+        warnings.push(`Attribute '${code}' already exists as type '${existing.type}', but the data looks like '${proposal.type}'`);
+      }
+
+      attributes.push(proposal);
+      for (const column of group) {
+        columnMapping[column.header] = column.locale ? { attribute: code, locale: column.locale } : code;
+      }
+    }
+
+    if (!Object.values(columnMapping).includes('sku')) {
+      warnings.push('No SKU column recognised - map the identifier column to "sku" before importing');
+    }
+
+    const usedGroups = GROUPS.filter(group => attributes.some(attr => attr.group === group.code));
+    const existingGroupCodes = new Set(existingGroups.items.map(group => group.code));
+    const familyLabel = input.family_label ?? 'Imported products';
+    const familyCode = input.family_code ?? toCode(familyLabel, 'family');
+
+    const familyGroups = usedGroups.map((group, index) => ({
+      code: group.code,
+      position: index + 1,
+      custom_attributes: [
+        ...(group.code === 'general' ? ['sku'] : []),
+        ...attributes.filter(attr => attr.group === group.code).map(attr => attr.code),
+      ].map((attrCode, position) => ({ code: attrCode, position: position + 1 })),
+    }));
+    if (!familyGroups.some(group => group.code === 'general')) {
+      familyGroups.unshift({ code: 'general', position: 0, custom_attributes: [{ code: 'sku', position: 1 }] });
+      familyGroups.forEach((group, index) => { group.position = index + 1; });
+    }
+
+    return {
+      row_count: rows.length,
+      attributes,
+      groups: familyGroups.map(group => ({
+        code: group.code,
+        labels: { [input.locale]: GROUPS.find(g => g.code === group.code)!.label },
+        position: group.position,
+        exists: existingGroupCodes.has(group.code),
+      })),
+      family: {
+        code: familyCode,
+        labels: { [input.locale]: familyLabel },
+        attribute_groups: familyGroups,
+      },
+      column_mapping: columnMapping,
+      warnings,
+    };
+  } catch (error) {
+    throw new Error(`Failed to propose datamodel: ${error}`, { cause: error });
+  }
+}
+
+/**
+ * unopim_plan_datamodel
+ * Diffs a datamodel file against the live instance; changes nothing
+ */
+export async function planDatamodel(
+  client: UnoPimClient,
+  input: PlanDatamodelInput
+): Promise<DatamodelPlan> {
+  try {
+    const datamodel = await loadDatamodel(input);
+    return await buildPlan(client, datamodel, input.prune);
+  } catch (error) {
+    throw new Error(`Failed to plan datamodel: ${error}`, { cause: error });
+  }
+}
+
+/**
+ * unopim_apply_datamodel
+ * Re-plans against the live instance and runs the changes in dependency order
+ */
+export async function applyDatamodel(
+  client: UnoPimClient,
+  input: ApplyDatamodelInput
+): Promise<{
+  success: boolean;
+  plan_id: string;
+  results: Array<Omit<DatamodelChange, 'payload'> & { status: 'applied' | 'failed' | 'skipped'; message?: string }>;
+  conflicts?: string[];
+  message: string;
+}> {
+  try {
+    const datamodel = await loadDatamodel(input);
+    const plan = await buildPlan(client, datamodel, input.prune);
+
+    if (plan.conflicts.length > 0) {
+      return {
+        success: false,
+        plan_id: plan.plan_id,
+        results: [],
+        conflicts: plan.conflicts,
+        message: `The datamodel has ${plan.conflicts.length} conflict(s) with the live instance. Fix them and plan again`,
+      };
+    }
+
+    if (input.expected_plan_id && input.expected_plan_id !== plan.plan_id) {
+      return {
+        success: false,
+        plan_id: plan.plan_id,
+        results: [],
+        message: `The live instance changed since plan ${input.expected_plan_id} (now ${plan.plan_id}). Review the new plan before applying`,
+      };
+    }
+
+    const results: Awaited<ReturnType<typeof applyDatamodel>>['results'] = [];
+    let failed = false;
+
+    for (const { payload, ...change } of plan.changes) {
+      if (failed && input.stop_on_error) {
+        results.push({ ...change, status: 'skipped' });
+        continue;
+      }
+
+      try {
+        await applyChange(client, { ...change, payload });
+        results.push({ ...change, status: 'applied' });
+      } catch (error) {
+        failed = true;
+        results.push({ ...change, status: 'failed', message: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    const count = (status: string) => results.filter(result => result.status === status).length;
+
+    return {
+      success: !failed,
+      plan_id: plan.plan_id,
+      results,
+      message: plan.changes.length === 0
+        ? 'Nothing to apply - the live instance matches the datamodel'
+        : `Applied ${count('applied')} of ${plan.changes.length} change(s)` +
+          (failed ? `; ${count('failed')} failed, ${count('skipped')} skipped` : ''),
+    };
+  } catch (error) {
+    throw new Error(`Failed to apply datamodel: ${error}`, { cause: error });
+  }
+}
+
+// ============================================================================
+// Inference
+// ============================================================================
+
+async function readSampleRows(path: string, maxRows: number): Promise<Record<string, unknown>[]> {
+  const rows: Record<string, unknown>[] = [];
+  for await (const { values } of readTable(await resolveFilePath(path))) {
+    rows.push(values);
+    if (rows.length >= maxRows) break;
+  }
+  return rows;
+}
+
+/**
+ * Gathers the non-empty values of every column and splits off locale markers
+ * such as "Description (da_DK)", "name-en_US" or "Title [de_DE]"
+ */
+function collectColumns(rows: Record<string, unknown>[]): ColumnInfo[] {
+  const columns = new Map<string, ColumnInfo>();
+
+  for (const row of rows) {
+    for (const [header, value] of Object.entries(row)) {
+      let column = columns.get(header);
+      if (!column) {
+        const match = header.trim().match(LOCALE_MARKER);
+        column = match
+          ? { header, base: match[1], locale: match[2], values: [] }
+          : { header, base: header.trim(), values: [] };
+        columns.set(header, column);
+      }
+
+      const text = cellText(value as Cell);
+      if (text !== '') {
+        column.values.push(text);
+      }
+    }
+  }
+
+  return [...columns.values()];
+}
+
+function cellText(value: Cell | unknown): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(String).join(',');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value).trim();
+}
+
+/**
+ * Infers type, validation, scope and options for one attribute from its column(s)
+ */
+function inferAttribute(
+  code: string,
+  columns: ColumnInfo[],
+  rowCount: number,
+  input: ProposeDatamodelInput
+): ProposedAttribute {
+  const values = columns.flatMap(column => column.values);
+  const label = columns[0].base;
+  const reasons: string[] = [];
+  const localized = columns.some(column => column.locale !== undefined);
+  const fillRate = rowCount > 0 ? Math.round((Math.max(...columns.map(c => c.values.length)) / rowCount) * 100) / 100 : 0;
+
+  const proposal: ProposedAttribute = {
+    code,
+    type: 'text',
+    labels: { [input.locale]: label },
+    value_per_locale: localized,
+    value_per_channel: false,
+    is_required: false,
+    is_unique: false,
+    group: 'general',
+    source_columns: columns.map(column => column.header),
+    fill_rate: fillRate,
+    exists: false,
+    reasons,
+  };
+
+  if (localized) {
+    reasons.push(`Locale-specific columns: ${columns.map(c => c.locale ?? '(no locale)').join(', ')}`);
+  }
+
+  if (values.length === 0) {
+    reasons.push('No sample values - defaulted to text');
+    return proposal;
+  }
+
+  const distinct = new Set(values);
+  const lowered = new Set(values.map(value => value.toLowerCase()));
+
+  if (lowered.size <= 2 && [...lowered].every(value => BOOLEAN_TOKENS.has(value))) {
+    proposal.type = 'boolean';
+    reasons.push(`Only boolean-like values: ${[...distinct].join(', ')}`);
+    return proposal;
+  }
+
+  if (values.every(isNumeric)) {
+    if (PRICE_HINT.test(label) || values.some(value => /[€$£]|kr/i.test(value))) {
+      proposal.type = 'price';
+      proposal.value_per_channel = true;
+      proposal.group = 'prices';
+      reasons.push('Numeric values in a price-like column');
+    } else if (values.every(value => /^-?\d+$/.test(value.replace(/[\s.,']/g, '')) && !/[.,]\d{1,2}$/.test(value))) {
+      proposal.validation = 'number';
+      proposal.group = 'technical';
+      reasons.push('Whole numbers only');
+    } else {
+      proposal.validation = 'decimal';
+      proposal.group = 'technical';
+      reasons.push('Decimal numbers');
+    }
+    return proposal;
+  }
+
+  if (values.every(value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value))) {
+    proposal.validation = 'email';
+    reasons.push('Email addresses');
+    return proposal;
+  }
+
+  if (values.every(value => /^https?:\/\/\S+$/i.test(value))) {
+    if (values.every(value => /\.(jpe?g|png|gif|webp|svg)(\?.*)?$/i.test(value))) {
+      proposal.type = 'image';
+      proposal.group = 'media';
+      reasons.push('Image URLs - upload them with unopim_upload_product_media');
+    } else {
+      proposal.validation = 'url';
+      reasons.push('URLs');
+    }
+    return proposal;
+  }
+
+  const longest = Math.max(...values.map(value => value.length));
+  const hasHtml = values.some(value => /<\/?[a-z][^>]*>/i.test(value));
+  const isLongText = longest > 255 || hasHtml || values.some(value => value.includes('\n'));
+
+  // Option sets: few distinct values that repeat across rows
+  const options = isLongText ? undefined : inferOptions(values, input.max_options);
+  if (options && !localized) {
+    proposal.type = options.multi ? 'multiselect' : 'select';
+    proposal.options = options.tokens.map((token, index) => ({
+      code: toCode(token, 'option'),
+      sort_order: index + 1,
+      labels: { [input.locale]: token },
+    }));
+    reasons.push(`${options.tokens.length} distinct value(s) repeated across ${values.length} rows${options.multi ? ', separated lists' : ''}`);
+    return proposal;
+  }
+
+  if (isLongText) {
+    proposal.type = 'textarea';
+    proposal.group = 'marketing';
+    if (hasHtml) {
+      proposal.enable_wysiwyg = true;
+      reasons.push('Contains HTML');
+    } else {
+      reasons.push(`Long or multi-line text (up to ${longest} characters)`);
+    }
+  }
+
+  // Free text made of words is usually translated
+  const wordy = values.filter(value => /\p{L}{2,}\s+\p{L}{2,}/u.test(value)).length / values.length;
+  if (!localized && wordy >= 0.5 && distinct.size > values.length / 2) {
+    proposal.value_per_locale = true;
+    reasons.push('Free text that is usually translated - proposed as locale-specific');
+  }
+
+  if (distinct.size === values.length && values.length === rowCount && !proposal.value_per_locale && proposal.type === 'text') {
+    proposal.is_unique = true;
+    reasons.push('Every row has a different value');
+  }
+
+  if (reasons.length === 0) {
+    reasons.push('Short free text');
+  }
+
+  return proposal;
+}
+
+/**
+ * Detects option sets by cardinality
+ * Multiselect when cells contain separated lists whose parts repeat
+ */
+function inferOptions(values: string[], maxOptions: number): { tokens: string[]; multi: boolean } | undefined {
+  const separator = [',', ';', '|'].find(sep => values.filter(value => value.includes(sep)).length >= values.length * 0.2);
+  const multi = separator !== undefined && values.every(value => value.length < 200);
+  const tokens = multi
+    ? values.flatMap(value => value.split(separator!).map(part => part.trim()).filter(Boolean))
+    : values;
+
+  // Count by code so "Black" and "black" become one option
+  const counts = new Map<string, { token: string; count: number }>();
+  for (const token of tokens) {
+    const key = toCode(token, 'option');
+    const entry = counts.get(key);
+    counts.set(key, { token: entry?.token ?? token, count: (entry?.count ?? 0) + 1 });
+  }
+
+  if (tokens.length < 4 || counts.size > maxOptions || counts.size > tokens.length * 0.6) {
+    return undefined;
+  }
+  if (tokens.some(token => token.length > 60)) {
+    return undefined;
+  }
+
+  const ordered = [...counts.values()].sort((a, b) => b.count - a.count).map(entry => entry.token);
+  return { tokens: ordered, multi };
+}
+
+function isNumeric(value: string): boolean {
+  const stripped = value.replace(/[€$£\s']|kr\.?|DKK|EUR|USD/gi, '');
+  return /^-?(\d{1,3}([.,]\d{3})*|\d+)([.,]\d+)?$/.test(stripped);
+}
+
+// ============================================================================
+// Plan & Apply
+// ============================================================================
+
+const ATTRIBUTE_FIELDS = [
+  'labels', 'is_required', 'is_unique', 'is_configurable', 'validation',
+  'regex_pattern', 'default_value', 'position', 'enable_wysiwyg',
+];
+
+// Fixed once the attribute exists (see UpdateAttributeInputSchema)
+const IMMUTABLE_ATTRIBUTE_FIELDS = ['type', 'value_per_locale', 'value_per_channel'];
+
+const CHANGE_SYMBOLS = { create: '+', update: '~', delete: '-' };
+
+async function loadDatamodel(input: { path?: string; datamodel?: Datamodel }): Promise<Datamodel> {
+  if (input.datamodel) {
+    return input.datamodel;
+  }
+
+  const path = await resolveFilePath(input.path!);
+  const text = await readFile(path, 'utf8');
+  const parsed = /\.ya?ml$/i.test(path) ? parseYaml(text) : JSON.parse(text);
+
+  const result = DatamodelSchema.safeParse(parsed ?? {});
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid datamodel file ${path}: ${issues.join('; ')}`);
+  }
+  return result.data;
+}
+
+/**
+ * Compares the datamodel with getSchema output (plus options) and lists the changes
+ * Changes come out in execution order: creates/updates for groups, attributes, options,
+ * categories and families, then deletes in reverse dependency order
+ */
+async function buildPlan(client: UnoPimClient, datamodel: Datamodel, prune: boolean): Promise<DatamodelPlan> {
+  const live = await getSchema(client, {
+    include_attributes: true,
+    include_families: true,
+    include_categories: true,
+    include_channels: false,
+    include_locales: false,
+  });
+
+  const conflicts: string[] = [];
+  const changes: DatamodelChange[] = [];
+  const deletes: Record<DatamodelEntity, DatamodelChange[]> = {
+    attribute_group: [], attribute: [], attribute_option: [], category: [], family: [],
+  };
+
+  if (prune && live.truncated) {
+    conflicts.push(`Cannot prune: the live ${live.truncated.join(', ')} list(s) hit the pagination cap, so missing entities are unknown`);
+  }
+
+  const liveGroups = byCode(live.attribute_groups);
+  const liveAttributes = byCode(live.attributes);
+  const liveFamilies = byCode(live.families);
+  const liveCategories = byCode(live.categories);
+
+  // Attribute groups
+  for (const group of datamodel.attribute_groups) {
+    const { code, ...definition } = group;
+    const current = liveGroups.get(code);
+    if (!current) {
+      requireLabels(conflicts, `attribute_group '${code}'`, group.labels);
+      changes.push({ action: 'create', entity: 'attribute_group', code, payload: definition });
+      continue;
+    }
+    addUpdate(changes, 'attribute_group', code, definition, current, ['labels', 'position']);
+  }
+
+  // Attributes, then their options
+  const optionChanges: DatamodelChange[] = [];
+  for (const attribute of datamodel.attributes) {
+    const { code, options, ...definition } = attribute;
+    const current = liveAttributes.get(code);
+
+    if (options && attribute.type !== 'select' && attribute.type !== 'multiselect') {
+      conflicts.push(`attribute '${code}' is ${attribute.type} and cannot have options`);
+    }
+
+    if (!current) {
+      requireLabels(conflicts, `attribute '${code}'`, attribute.labels);
+      changes.push({ action: 'create', entity: 'attribute', code, payload: definition });
+      for (const { code: optionCode, ...option } of options || []) {
+        requireLabels(conflicts, `option '${code}.${optionCode}'`, option.labels);
+        optionChanges.push({ action: 'create', entity: 'attribute_option', code: optionCode, attribute: code, payload: option });
+      }
+      continue;
+    }
+
+    const immutable = changedFields(definition, current, IMMUTABLE_ATTRIBUTE_FIELDS);
+    if (immutable.length > 0) {
+      const details = immutable.map(field =>
+        `${field} is ${String(current[field as keyof Attribute])} live but ${String(definition[field as keyof typeof definition])} in the datamodel`
+      );
+      conflicts.push(`attribute '${code}': ${details.join(', ')} - this cannot change once the attribute exists`);
+    }
+    addUpdate(changes, 'attribute', code, definition, current, ATTRIBUTE_FIELDS);
+
+    if (!options || (current.type !== 'select' && current.type !== 'multiselect')) {
+      continue;
+    }
+
+    client.schemaCache.invalidate('options', code);
+    const liveOptions = byCode(await client.schemaCache.getAttributeOptions(code));
+    for (const { code: optionCode, ...option } of options) {
+      const currentOption = liveOptions.get(optionCode);
+      if (!currentOption) {
+        requireLabels(conflicts, `option '${code}.${optionCode}'`, option.labels);
+        optionChanges.push({ action: 'create', entity: 'attribute_option', code: optionCode, attribute: code, payload: option });
+        continue;
+      }
+      const fields = changedFields(option, currentOption, ['labels', 'sort_order']);
+      if (fields.length > 0) {
+        optionChanges.push({
+          action: 'update', entity: 'attribute_option', code: optionCode, attribute: code, fields, payload: pickFields(option, fields),
+        });
+      }
+    }
+
+    if (prune) {
+      const wanted = new Set(options.map(option => option.code));
+      for (const optionCode of liveOptions.keys()) {
+        if (!wanted.has(optionCode)) {
+          deletes.attribute_option.push({ action: 'delete', entity: 'attribute_option', code: optionCode, attribute: code });
+        }
+      }
+    }
+  }
+  changes.push(...optionChanges);
+
+  // Categories, parents before children
+  const categoryCodes = new Set([...datamodel.categories.map(category => category.code), ...liveCategories.keys()]);
+  const desiredParents = new Map(datamodel.categories.map(category => [category.code, category.parent ?? null]));
+  for (const category of sortByDepth(datamodel.categories, desiredParents)) {
+    const { code, ...definition } = category;
+    const current = liveCategories.get(code);
+
+    if (category.parent && !categoryCodes.has(category.parent)) {
+      conflicts.push(`category '${code}': parent '${category.parent}' is neither in the datamodel nor live`);
+    }
+
+    if (!current) {
+      requireLabels(conflicts, `category '${code}'`, category.labels);
+      changes.push({
+        action: 'create', entity: 'category', code,
+        payload: { labels: category.labels, ...(category.parent && { parent: category.parent }) },
+      });
+      continue;
+    }
+
+    const fields = changedFields({ labels: category.labels }, current, ['labels']);
+    if (definition.parent !== undefined && (definition.parent ?? null) !== (current.parent ?? null)) {
+      if (definition.parent === null) {
+        conflicts.push(`category '${code}' is under '${current.parent}' live and cannot be moved to the top level`);
+      } else {
+        fields.push('parent');
+      }
+    }
+    if (fields.length > 0) {
+      changes.push({ action: 'update', entity: 'category', code, fields, payload: pickFields(definition, fields) });
+    }
+  }
+
+  // Families last: they reference groups and attributes
+  const groupCodes = new Set([...datamodel.attribute_groups.map(group => group.code), ...liveGroups.keys()]);
+  const attributeCodes = new Set([...datamodel.attributes.map(attribute => attribute.code), ...liveAttributes.keys()]);
+  for (const family of datamodel.families) {
+    const layout: FamilyAttributeGroup[] = family.attribute_groups.map((group, index) => ({
+      code: group.code,
+      position: index + 1,
+      custom_attributes: group.custom_attributes
+        .map((entry, position) => typeof entry === 'string'
+          ? { code: entry, position: position + 1 }
+          : { code: entry.code, position: entry.position ?? position + 1 })
+        .sort((a, b) => a.position - b.position)
+        .map((entry, position) => ({ code: entry.code, position: position + 1 })),
+    }));
+
+    for (const group of layout) {
+      if (!groupCodes.has(group.code)) {
+        conflicts.push(`family '${family.code}': attribute group '${group.code}' is neither in the datamodel nor live`);
+      }
+      const unknown = group.custom_attributes.filter(attr => !attributeCodes.has(attr.code)).map(attr => attr.code);
+      if (unknown.length > 0) {
+        conflicts.push(`family '${family.code}': unknown attribute(s) ${unknown.join(', ')}`);
+      }
+    }
+
+    const current = liveFamilies.get(family.code);
+    if (!current) {
+      requireLabels(conflicts, `family '${family.code}'`, family.labels);
+      changes.push({ action: 'create', entity: 'family', code: family.code, payload: { labels: family.labels, attribute_groups: layout } });
+      continue;
+    }
+
+    const fields = changedFields({ labels: family.labels }, current, ['labels']);
+    if (layoutKey(layout) !== layoutKey(current.attribute_groups || [])) {
+      fields.push('attribute_groups');
+    }
+    if (fields.length > 0) {
+      // Families are saved whole, so the payload carries the full body
+      changes.push({
+        action: 'update', entity: 'family', code: family.code, fields,
+        payload: {
+          labels: { ...current.labels, ...family.labels },
+          attribute_groups: fields.includes('attribute_groups') ? layout : current.attribute_groups,
+        },
+      });
+    }
+  }
+
+  if (prune) {
+    const missing = <T extends { code: string }>(liveItems: Map<string, T>, wanted: Array<{ code: string }>): T[] => {
+      const codes = new Set(wanted.map(item => item.code));
+      return [...liveItems.values()].filter(item => !codes.has(item.code));
+    };
+
+    for (const family of missing(liveFamilies, datamodel.families)) {
+      deletes.family.push({ action: 'delete', entity: 'family', code: family.code });
+    }
+    // Top-level categories are channel roots and are never pruned
+    const liveParents = new Map(live.categories.map(category => [category.code, category.parent ?? null]));
+    const prunable = missing(liveCategories, datamodel.categories).filter(category => category.parent);
+    for (const category of sortByDepth(prunable, liveParents).reverse()) {
+      deletes.category.push({ action: 'delete', entity: 'category', code: category.code });
+    }
+    for (const attribute of missing(liveAttributes, datamodel.attributes)) {
+      if (attribute.code !== 'sku') {
+        deletes.attribute.push({ action: 'delete', entity: 'attribute', code: attribute.code });
+      }
+    }
+    for (const group of missing(liveGroups, datamodel.attribute_groups)) {
+      deletes.attribute_group.push({ action: 'delete', entity: 'attribute_group', code: group.code });
+    }
+  }
+
+  changes.push(...deletes.family, ...deletes.category, ...deletes.attribute_option, ...deletes.attribute, ...deletes.attribute_group);
+
+  const summary = {
+    create: changes.filter(change => change.action === 'create').length,
+    update: changes.filter(change => change.action === 'update').length,
+    delete: changes.filter(change => change.action === 'delete').length,
+  };
+
+  return {
+    plan_id: shortHash(JSON.stringify(changes)),
+    changes,
+    summary,
+    conflicts,
+    text: renderPlan(changes, summary, conflicts),
+  };
+}
+
+/**
+ * Runs one planned change through the regular tool implementations
+ * Refusals (success: false) are raised as errors so apply stops on them
+ */
+async function applyChange(client: UnoPimClient, change: DatamodelChange): Promise<void> {
+  const { code, payload = {} } = change;
+  const expectSuccess = (result: { success: boolean; message?: string }): void => {
+    if (!result.success) {
+      throw new Error(result.message || `Could not ${change.action} ${change.entity} '${code}'`);
+    }
+  };
+
+  switch (change.entity) {
+    case 'attribute_group':
+      if (change.action === 'create') {
+        await createAttributeGroup(client, CreateAttributeGroupInputSchema.parse({ code, ...payload }));
+      } else if (change.action === 'update') {
+        await updateAttributeGroup(client, UpdateAttributeGroupInputSchema.parse({ code, ...payload }));
+      } else {
+        expectSuccess(await deleteAttributeGroup(client, { code }));
+      }
+      return;
+
+    case 'attribute':
+      if (change.action === 'create') {
+        await createAttribute(client, CreateAttributeInputSchema.parse({ code, ...payload }));
+      } else if (change.action === 'update') {
+        await updateAttribute(client, UpdateAttributeInputSchema.parse({ code, ...payload }));
+      } else {
+        expectSuccess(await deleteAttribute(client, { code, force: false }));
+      }
+      return;
+
+    case 'attribute_option': {
+      const attributeCode = change.attribute!;
+      if (change.action === 'create') {
+        await createAttributeOptions(client, CreateAttributeOptionsInputSchema.parse({
+          attribute_code: attributeCode,
+          options: [{ code, ...payload }],
+        }));
+      } else if (change.action === 'update') {
+        await updateAttributeOptions(client, UpdateAttributeOptionsInputSchema.parse({
+          attribute_code: attributeCode,
+          options: [{ code, ...payload }],
+        }));
+      } else {
+        expectSuccess(await deleteAttributeOptions(client, { attribute_code: attributeCode, codes: [code], force: false }));
+      }
+      return;
+    }
+
+    case 'category':
+      if (change.action === 'create') {
+        await createCategory(client, CreateCategoryInputSchema.parse({ code, ...payload }));
+      } else if (change.action === 'update') {
+        if (payload.labels) {
+          await updateCategory(client, UpdateCategoryInputSchema.parse({ code, labels: payload.labels }));
+        }
+        if (typeof payload.parent === 'string') {
+          expectSuccess(await moveCategory(client, { code, new_parent: payload.parent }));
+        }
+      } else {
+        expectSuccess(await deleteCategory(client, { code, children: 'refuse', products: 'refuse' }));
+      }
+      return;
+
+    case 'family':
+      if (change.action === 'create') {
+        await createFamily(client, CreateFamilyInputSchema.parse({ code, ...payload }));
+      } else if (change.action === 'update') {
+        // Translated into update_family operations so its group and attribute checks apply
+        client.schemaCache.invalidate('family', code);
+        const current = await client.schemaCache.getFamily(code);
+        await updateFamily(client, UpdateFamilyInputSchema.parse(familyUpdateOperations(
+          code,
+          current.attribute_groups || [],
+          payload.labels as Record<string, string> | undefined,
+          change.fields?.includes('attribute_groups') ? payload.attribute_groups as FamilyAttributeGroup[] : undefined
+        )));
+      } else {
+        expectSuccess(await deleteFamily(client, { code }));
+      }
+      return;
+  }
+}
+
+function byCode<T extends { code: string }>(items: T[]): Map<string, T> {
+  return new Map(items.map(item => [item.code, item]));
+}
+
+function requireLabels(conflicts: string[], subject: string, labels: Record<string, string> | undefined): void {
+  if (!labels || Object.keys(labels).length === 0) {
+    conflicts.push(`${subject} needs labels to be created`);
+  }
+}
+
+function addUpdate(
+  changes: DatamodelChange[],
+  entity: DatamodelEntity,
+  code: string,
+  desired: Record<string, unknown>,
+  current: object,
+  fields: string[]
+): void {
+  const changed = changedFields(desired, current, fields);
+  if (changed.length > 0) {
+    changes.push({ action: 'update', entity, code, fields: changed, payload: pickFields(desired, changed) });
+  }
+}
+
+/**
+ * Fields the datamodel sets to something other than the live value
+ * Labels only compare the locales the datamodel lists, since label updates merge
+ */
+function changedFields(desired: Record<string, unknown>, current: object, fields: string[]): string[] {
+  const live = current as Record<string, unknown>;
+  return fields.filter(field => {
+    const wanted = desired[field];
+    const actual = live[field];
+    if (wanted === undefined) return false;
+    if (field === 'labels') {
+      return Object.entries(wanted as Record<string, string>)
+        .some(([locale, label]) => (actual as Record<string, string> | undefined)?.[locale] !== label);
+    }
+    // The API is loose about scalar types (1/"1" for true, "3" for 3)
+    if (typeof wanted === 'boolean') return wanted !== (actual === true || actual === 1 || actual === '1' || actual === 'true');
+    if (typeof wanted === 'number') return wanted !== Number(actual);
+    return (wanted ?? null) !== (actual ?? null);
+  });
+}
+
+function pickFields(source: Record<string, unknown>, fields: string[]): Record<string, unknown> {
+  return Object.fromEntries(fields.map(field => [field, source[field]]));
+}
+
+/**
+ * Orders items so every parent comes before its children (by depth in the parent map)
+ */
+function sortByDepth<T extends { code: string }>(items: T[], parents: Map<string, string | null>): T[] {
+  const depthOf = (code: string): number => {
+    const seen = new Set<string>();
+    let depth = 0;
+    for (let parent = parents.get(code); parent && !seen.has(parent); parent = parents.get(parent)) {
+      seen.add(parent);
+      depth++;
+    }
+    return depth;
+  };
+  return items
+    .map((item, index) => ({ item, index, depth: depthOf(item.code) }))
+    .sort((a, b) => a.depth - b.depth || a.index - b.index)
+    .map(entry => entry.item);
+}
+
+/**
+ * Expresses a family's desired complete layout as update_family operations against its live layout
+ * Attributes in another group are moved, missing ones added, extra ones removed, emptied groups
+ * dropped, then groups and attributes are put in the desired order
+ */
+function familyUpdateOperations(
+  code: string,
+  current: FamilyAttributeGroup[],
+  labels: Record<string, string> | undefined,
+  layout: FamilyAttributeGroup[] | undefined
+): UpdateFamilyInput {
+  const operations: UpdateFamilyInput = { code, ...(labels && { update_labels: labels }) };
+  if (!layout) {
+    return operations;
+  }
+
+  const currentGroupOf = new Map(current.flatMap(group =>
+    (group.custom_attributes || []).map(attr => [attr.code, group.code] as const)
+  ));
+  const desiredGroupOf = new Map(layout.flatMap(group =>
+    group.custom_attributes.map(attr => [attr.code, group.code] as const)
+  ));
+  const currentGroups = new Set(current.map(group => group.code));
+  const desiredGroups = new Set(layout.map(group => group.code));
+
+  operations.add_groups = layout
+    .filter(group => !currentGroups.has(group.code))
+    .map(group => ({ group_code: group.code, position: group.position }));
+  operations.add_attributes = [...desiredGroupOf]
+    .filter(([attribute]) => !currentGroupOf.has(attribute))
+    .map(([attribute, group]) => ({ group_code: group, attribute_code: attribute }));
+  operations.move_attributes = [...desiredGroupOf]
+    .filter(([attribute, group]) => currentGroupOf.has(attribute) && currentGroupOf.get(attribute) !== group)
+    .map(([attribute, group]) => ({ attribute_code: attribute, to_group_code: group }));
+  operations.remove_attributes = [...currentGroupOf.keys()]
+    .filter(attribute => !desiredGroupOf.has(attribute))
+    .map(attribute => ({ attribute_code: attribute }));
+  operations.remove_groups = current
+    .filter(group => !desiredGroups.has(group.code))
+    .map(group => ({ group_code: group.code }));
+  operations.group_order = layout.map(group => group.code);
+  operations.attribute_order = layout.map(group => ({
+    group_code: group.code,
+    attribute_codes: group.custom_attributes.map(attr => attr.code),
+  }));
+
+  return operations;
+}
+
+function layoutKey(groups: FamilyAttributeGroup[]): string {
+  const byPosition = <T extends { position: number }>(items: T[]): T[] =>
+    [...items].sort((a, b) => Number(a.position) - Number(b.position));
+  return JSON.stringify(byPosition(groups).map(group => [
+    group.code,
+    byPosition(group.custom_attributes || []).map(attr => attr.code),
+  ]));
+}
+
+function renderPlan(
+  changes: DatamodelChange[],
+  summary: DatamodelPlan['summary'],
+  conflicts: string[]
+): string {
+  const lines = changes.map(change => {
+    const name = change.attribute ? `${change.attribute}.${change.code}` : change.code;
+    const fields = change.fields ? ` (${change.fields.join(', ')})` : '';
+    return `${CHANGE_SYMBOLS[change.action]} ${change.entity} ${name}${fields}`;
+  });
+
+  lines.push(changes.length === 0
+    ? 'No changes. The live instance matches the datamodel.'
+    : `Plan: ${summary.create} to create, ${summary.update} to update, ${summary.delete} to delete.`);
+
+  if (conflicts.length > 0) {
+    lines.push('', `Conflicts (apply is blocked):`, ...conflicts.map(conflict => `! ${conflict}`));
+  }
+
+  return lines.join('\n');
+}
+
+// ============================================================================
+// Tool Definitions
+// ============================================================================
+
+export const datamodelTools = [
+  defineTool({
+    name: 'unopim_propose_datamodel',
+    description: `Analyse sample product data and propose a datamodel. Creates NOTHING.
+
+Pass rows inline ({ "rows": [{ "SKU": "A1", "Colour": "Black", ... }] }) or a file path (CSV/XLSX/JSONL).
+For every column it infers:
+- type: text, textarea (long/HTML), boolean, price, select/multiselect (few repeating values), image (image URLs)
+- validation: number, decimal, email, url
+- value_per_locale: columns like "Description (da_DK)" / "name-en_US" are merged into one
+  localizable attribute; free text is proposed as locale-specific too
+- options for select/multiselect, with lowercase codes and the original text as label
+
+Returns attributes (with reasons and whether they already exist), groups, a family using them,
+and column_mapping ready for unopim_import_products_file.
+
+Review the proposal with the user, then create it with unopim_create_attribute,
+unopim_create_attribute_options, unopim_create_attribute_group and unopim_create_family.`,
+    inputSchema: ProposeDatamodelInputSchema,
+    handler: proposeDatamodel,
+  }),
+  defineTool({
+    name: 'unopim_plan_datamodel',
+    description: `Diff a datamodel file (JSON or YAML) against the live instance. Changes NOTHING.
+
+File format (every section optional; fields left out are not managed):
+  attribute_groups: [{ code, labels, position }]
+  attributes: [{ code, type, labels, is_required, value_per_locale, validation, ..., options: [{ code, labels, sort_order }] }]
+  categories: [{ code, parent, labels }]
+  families: [{ code, labels, attribute_groups: [{ code, custom_attributes: ["sku", "name", ...] }] }]
+
+Labels are compared per listed locale (updates merge). A family's attribute_groups is its complete layout.
+Returns changes in execution order (+ create, ~ update, - delete), a plan_id and conflicts that block apply
+(e.g. changing an attribute's type or value_per_locale, unknown references, missing labels).
+With prune=true, live entities missing from the file are deleted (never sku or top-level categories).`,
+    inputSchema: PlanDatamodelInputSchema,
+    handler: planDatamodel,
+  }),
+  defineTool({
+    name: 'unopim_apply_datamodel',
+    description: `Apply a datamodel file (JSON or YAML) to the live instance.
+
+Plans again, then runs the changes in dependency order: attribute groups, attributes, options,
+categories (parents first), families; deletes run last in reverse order.
+Refuses when the plan has conflicts, or when expected_plan_id (from unopim_plan_datamodel) no longer matches.
+Deletes use the safe defaults of the delete tools, so entities still in use are refused, not forced.
+Run unopim_plan_datamodel first and review it with the user.`,
+    inputSchema: ApplyDatamodelInputSchema,
+    handler: applyDatamodel,
+  }),
+];
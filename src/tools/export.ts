@@ -0,0 +1,157 @@
+/**
+ * Catalog export tools for UnoPim
+ * Streams products to CSV, JSONL or XLSX files with one column per attribute/locale/channel
+ */
+
+import { z } from 'zod';
+import { createWriteStream } from 'node:fs';
+import { rm } from 'node:fs/promises';
+import { once } from 'node:events';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { UnoPimClient } from '../client/unopim-client.js';
+import { defineTool } from './registry.js';
+import { streamProducts } from './products.js';
+import { ProductFilterSchema } from '../utils/product-filter.js';
+import { flattenProductValues } from '../utils/product-values.js';
+import { readJsonLines, writeTable, type Cell } from '../utils/tabular.js';
+import { defaultFilePath, resolveFilePath } from '../utils/files.js';
+import type { Product } from '../types/unopim.js';
+
+// ============================================================================
+// Input Schemas
+// ============================================================================
+
+export const ExportProductsInputSchema = z.object({
+  format: z.enum(['csv', 'jsonl', 'xlsx']).optional().default('csv'),
+  output_path: z.string().optional()
+    .describe('File to write, relative to the server files directory (default: a timestamped file there)'),
+  filter_sku: z.string().optional().describe('Filter by SKU (partial match)'),
+  filter_family: z.string().optional().describe('Filter by family code'),
+  filter_type: z.enum(['simple', 'configurable']).optional().describe('Filter by product type'),
+  filters: ProductFilterSchema.optional()
+    .describe('Same structured filters as unopim_get_products'),
+  locales: z.array(z.string()).optional().describe('Only export values in these locales (default: all)'),
+  channels: z.array(z.string()).optional().describe('Only export values in these channels (default: all)'),
+  attributes: z.array(z.string()).optional().describe('Only export these attributes (default: all)'),
+  csv_delimiter: z.string().length(1).optional().default(',').describe('CSV field delimiter'),
+});
+
+export type ExportProductsInput = z.infer<typeof ExportProductsInputSchema>;
+
+// Product-level columns that always come first
+const BASE_COLUMNS = ['sku', 'type', 'family', 'parent', 'categories'];
+
+// ============================================================================
+// Tool Implementations
+// ============================================================================
+
+/**
+ * unopim_export_products
+ * Exports matching products to a file
+ * Rows are spooled to a temporary JSONL file first, because the full column set is only
+ * known after every product has been seen
+ */
+export async function exportProducts(
+  client: UnoPimClient,
+  input: ExportProductsInput
+): Promise<{
+  success: boolean;
+  path: string;
+  format: string;
+  row_count: number;
+  scanned: number;
+  columns: string[];
+}> {
+  const path = input.output_path
+    ? await resolveFilePath(input.output_path)
+    : defaultFilePath('unopim-products', input.format);
+  const spoolPath = join(tmpdir(), `unopim-export-${process.pid}-${Date.now()}.jsonl`);
+
+  try {
+    const attributeColumns = new Set<string>();
+    const stats = { scanned: 0 };
+    const spool = createWriteStream(spoolPath, { encoding: 'utf8' });
+
+    try {
+      for await (const product of streamProducts(client, input, input.filters, {}, stats)) {
+        const row = toRow(product, input);
+        Object.keys(row).forEach(column => attributeColumns.add(column));
+        if (!spool.write(JSON.stringify(row) + '\n')) {
+          await once(spool, 'drain');
+        }
+      }
+    } finally {
+      spool.end();
+      await once(spool, 'close');
+    }
+
+    const columns = [
+      ...BASE_COLUMNS,
+      ...[...attributeColumns].filter(column => !BASE_COLUMNS.includes(column)).sort(),
+    ];
+
+    const rowCount = await writeTable(path, readJsonLines<Record<string, Cell>>(spoolPath), {
+      format: input.format,
+      columns,
+      delimiter: input.csv_delimiter,
+      sheetName: 'Products',
+    });
+
+    return {
+      success: true,
+      path,
+      format: input.format,
+      row_count: rowCount,
+      scanned: stats.scanned,
+      columns,
+    };
+  } catch (error) {
+    throw new Error(`Failed to export products: ${error}`, { cause: error });
+  } finally {
+    await rm(spoolPath, { force: true });
+  }
+}
+
+/**
+ * One flat row per product; the sku value column is covered by the base sku column
+ */
+function toRow(product: Product, input: ExportProductsInput): Record<string, Cell> {
+  const { sku: _sku, ...values } = flattenProductValues((product.values || {}) as Record<string, unknown>, {
+    attributes: input.attributes,
+    locales: input.locales,
+    channels: input.channels,
+  });
+
+  return {
+    sku: product.sku,
+    type: product.type,
+    family: product.family,
+    parent: product.parent ?? '',
+    categories: (product.values?.categories || []).join(','),
+    ...values,
+  };
+}
+
+// ============================================================================
+// Tool Definitions
+// ============================================================================
+
+export const exportTools = [
+  defineTool({
+    name: 'unopim_export_products',
+    description: `Export products to a CSV, JSONL or XLSX file in the server files directory (UNOPIM_FILES_DIR).
+
+Streams every product matching the filters (same filter_* and filters options as unopim_get_products)
+and flattens values into one column per attribute, locale and channel:
+- common:                  color
+- locale_specific:         description-en_US
+- channel_specific:        price-ecommerce
+- channel_locale_specific: name-en_US-ecommerce
+Price values get one column per currency (price-USD). Multiselect values are comma-separated.
+
+Use locales, channels and attributes to limit the columns. Returns the file path and row count.`,
+    inputSchema: ExportProductsInputSchema,
+    handler: exportProducts,
+  }),
+];
@@ -1,11 +1,14 @@
 /**
  * Family management tools for UnoPim
- * Handles product family creation and updates
+ * Handles product family creation, updates, cloning and deletion
  */
 
 import { z } from 'zod';
 import type { UnoPimClient } from '../client/unopim-client.js';
-import type { Family, FamilyAttributeGroup } from '../types/unopim.js';
+import { defineTool } from './registry.js';
+import { getAttributeGroups } from './groups.js';
+import { isNotFound } from '../types/errors.js';
+import type { Family, FamilyAttributeGroup, Product } from '../types/unopim.js';
 
 // ============================================================================
 // Input Schemas
@@ -13,41 +16,87 @@ import type { Family, FamilyAttributeGroup } from '../types/unopim.js';
 
 // Position is REQUIRED by UnoPim API
 const FamilyAttributeAssignmentSchema = z.object({
-  code: z.string(),
+  code: z.string().describe('Attribute code'),
   position: z.number(),
 });
 
 // attribute_groups with position and custom_attributes are REQUIRED
 const FamilyAttributeGroupSchema = z.object({
-  code: z.string(),
+  code: z.string().describe('Attribute group code'),
   position: z.number(),
   custom_attributes: z.array(FamilyAttributeAssignmentSchema),
 });
 
 export const CreateFamilyInputSchema = z.object({
-  code: z.string().regex(/^[a-z0-9_]+$/, 'Code must be lowercase alphanumeric with underscores'),
+  code: z.string().regex(/^[a-z0-9_]+$/, 'Code must be lowercase alphanumeric with underscores')
+    .describe('Unique family code'),
   labels: z.record(z.string(), z.string()).refine(
     (labels) => Object.keys(labels).length > 0,
     'At least one label is required'
-  ),
-  attribute_groups: z.array(FamilyAttributeGroupSchema),
+  ).describe('Labels by locale'),
+  attribute_groups: z.array(FamilyAttributeGroupSchema)
+    .describe('Array of attribute groups. Each group needs: code (string), position (number, REQUIRED), custom_attributes (array of {code, position}, REQUIRED)'),
 });
 
 export const UpdateFamilyInputSchema = z.object({
-  code: z.string(),
-  add_attributes: z.array(z.object({
+  code: z.string().describe('Family code to update'),
+  add_groups: z.array(z.object({
     group_code: z.string(),
+    position: z.number().optional().describe('Defaults to after the last group'),
+  })).optional().describe('Attribute groups to add to the family (must exist, see unopim_get_attribute_groups)'),
+  add_attributes: z.array(z.object({
+    group_code: z.string().describe('Attribute group code; added to the family if missing'),
     attribute_code: z.string(),
     position: z.number().optional(),
   })).optional(),
+  move_attributes: z.array(z.object({
+    attribute_code: z.string(),
+    to_group_code: z.string().describe('Target attribute group code; added to the family if missing'),
+    position: z.number().optional().describe('Defaults to the end of the target group'),
+  })).optional().describe('Move attributes that are already in the family to another group'),
   remove_attributes: z.array(z.object({
     attribute_code: z.string(),
   })).optional(),
+  remove_groups: z.array(z.object({
+    group_code: z.string(),
+    move_attributes_to: z.string().optional()
+      .describe('Group that receives the removed group\'s attributes; without it the group must be empty'),
+  })).optional(),
+  group_order: z.array(z.string()).optional()
+    .describe('Group codes in the desired order; positions are renumbered 1..n, unlisted groups follow'),
+  attribute_order: z.array(z.object({
+    group_code: z.string(),
+    attribute_codes: z.array(z.string()),
+  })).optional().describe('Attribute codes per group in the desired order; unlisted attributes follow'),
   update_labels: z.record(z.string(), z.string()).optional(),
 });
 
+export const CloneFamilyInputSchema = z.object({
+  source_code: z.string().describe('Existing family code to copy'),
+  code: z.string().regex(/^[a-z0-9_]+$/, 'Code must be lowercase alphanumeric with underscores')
+    .describe('Code for the new family'),
+  labels: z.record(z.string(), z.string()).refine(
+    (labels) => Object.keys(labels).length > 0,
+    'At least one label is required'
+  ).describe('Labels for the new family by locale'),
+  add_attributes: z.array(z.object({
+    group_code: z.string().describe('Attribute group code; added to the family if the source does not have it'),
+    attribute_code: z.string(),
+    position: z.number().optional(),
+  })).optional().describe('Attributes to add on top of the copied ones'),
+  remove_attributes: z.array(z.object({
+    attribute_code: z.string(),
+  })).optional().describe('Copied attributes to leave out'),
+});
+
+export const DeleteFamilyInputSchema = z.object({
+  code: z.string().describe('Family code to delete'),
+});
+
 export type CreateFamilyInput = z.infer<typeof CreateFamilyInputSchema>;
 export type UpdateFamilyInput = z.infer<typeof UpdateFamilyInputSchema>;
+export type CloneFamilyInput = z.infer<typeof CloneFamilyInputSchema>;
+export type DeleteFamilyInput = z.infer<typeof DeleteFamilyInputSchema>;
 
 // ============================================================================
 // Tool Implementations
@@ -76,18 +125,22 @@ export async function createFamily(
       familyData
     );
 
+    client.schemaCache.invalidate('family', input.code);
+
     return {
       success: true,
       family: response.data,
     };
   } catch (error) {
-    throw new Error(`Failed to create family: ${error}`);
+    throw new Error(`Failed to create family: ${error}`, { cause: error });
   }
 }
 
 /**
  * unopim_update_family
- * Updates an existing family with new attributes or labels
+ * Updates labels, groups and attribute placement of an existing family
+ * Operations apply in order: labels, add groups, add attributes, move attributes,
+ * remove attributes, remove groups, reorder groups, reorder attributes
  */
 export async function updateFamily(
   client: UnoPimClient,
@@ -95,14 +148,26 @@ export async function updateFamily(
 ): Promise<{
   success: boolean;
   family: Family;
+  changes: string[];
 }> {
   try {
-    // First, get the existing family
-    const existingFamily = await client.get<{ data: Family }>(
-      `/api/v1/rest/families/${input.code}`
-    );
+    // Work on a copy of the live family so the cached one is never mutated
+    client.schemaCache.invalidate('family', input.code);
+    const existingFamily = await client.schemaCache.getFamily(input.code);
+    const family: Family = {
+      ...existingFamily,
+      attribute_groups: copyAttributeGroups(existingFamily.attribute_groups),
+    };
+    const changes: string[] = [];
 
-    const family = existingFamily.data;
+    // Every group the update places attributes in must exist in UnoPim
+    const referencedGroups = new Set([
+      ...(input.add_groups || []).map(g => g.group_code),
+      ...(input.add_attributes || []).map(a => a.group_code),
+      ...(input.move_attributes || []).map(m => m.to_group_code),
+      ...(input.remove_groups || []).flatMap(g => g.move_attributes_to ? [g.move_attributes_to] : []),
+    ]);
+    await assertGroupsExist(client, family, referencedGroups);
 
     // Update labels if provided
     if (input.update_labels) {
@@ -110,51 +175,423 @@ export async function updateFamily(
         ...family.labels,
         ...input.update_labels,
       };
+      changes.push('Updated labels');
     }
 
-    // Add new attributes
-    if (input.add_attributes && input.add_attributes.length > 0) {
-      for (const attr of input.add_attributes) {
-        // Find the attribute group
-        const group = family.attribute_groups.find(g => g.code === attr.group_code);
+    for (const group of input.add_groups || []) {
+      const existing = family.attribute_groups.find(g => g.code === group.group_code);
+      if (existing) {
+        if (group.position !== undefined) existing.position = group.position;
+        continue;
+      }
+      ensureGroup(family, group.group_code, group.position);
+      changes.push(`Added group '${group.group_code}'`);
+    }
 
-        if (!group) {
-          throw new Error(`Attribute group '${attr.group_code}' not found in family`);
-        }
+    for (const attr of input.add_attributes || []) {
+      const current = findAttributeGroup(family, attr.attribute_code);
+      if (current?.code === attr.group_code) continue;
+      if (current) {
+        throw new Error(
+          `Attribute '${attr.attribute_code}' is already in group '${current.code}' - use move_attributes to change its group`
+        );
+      }
 
-        // Check if attribute already exists
-        const exists = group.custom_attributes.some(a => a.code === attr.attribute_code);
-        if (!exists) {
-          group.custom_attributes.push({
-            code: attr.attribute_code,
-            position: attr.position || group.custom_attributes.length + 1,
-          });
-        }
+      const group = ensureGroup(family, attr.group_code);
+      group.custom_attributes.push({
+        code: attr.attribute_code,
+        position: attr.position || group.custom_attributes.length + 1,
+      });
+      changes.push(`Added '${attr.attribute_code}' to group '${attr.group_code}'`);
+    }
+
+    for (const move of input.move_attributes || []) {
+      const from = findAttributeGroup(family, move.attribute_code);
+      if (!from) {
+        throw new Error(`Attribute '${move.attribute_code}' is not in family '${input.code}'`);
       }
+
+      from.custom_attributes = from.custom_attributes.filter(a => a.code !== move.attribute_code);
+      const to = ensureGroup(family, move.to_group_code);
+      to.custom_attributes.push({
+        code: move.attribute_code,
+        position: move.position || to.custom_attributes.length + 1,
+      });
+      changes.push(`Moved '${move.attribute_code}' from '${from.code}' to '${to.code}'`);
     }
 
-    // Remove attributes
-    if (input.remove_attributes && input.remove_attributes.length > 0) {
-      for (const attr of input.remove_attributes) {
-        for (const group of family.attribute_groups) {
-          group.custom_attributes = group.custom_attributes.filter(
-            a => a.code !== attr.attribute_code
+    for (const attr of input.remove_attributes || []) {
+      if (attr.attribute_code === 'sku') {
+        throw new Error(`The 'sku' attribute cannot be removed from a family`);
+      }
+      for (const group of family.attribute_groups) {
+        group.custom_attributes = group.custom_attributes.filter(
+          a => a.code !== attr.attribute_code
+        );
+      }
+      changes.push(`Removed '${attr.attribute_code}'`);
+    }
+
+    for (const removal of input.remove_groups || []) {
+      const group = family.attribute_groups.find(g => g.code === removal.group_code);
+      if (!group) {
+        throw new Error(`Attribute group '${removal.group_code}' is not in family '${input.code}'`);
+      }
+      if (removal.move_attributes_to === removal.group_code) {
+        throw new Error(`Cannot move attributes of group '${removal.group_code}' into itself`);
+      }
+
+      if (group.custom_attributes.length > 0) {
+        if (!removal.move_attributes_to) {
+          throw new Error(
+            `Attribute group '${removal.group_code}' still has attributes (${group.custom_attributes.map(a => a.code).join(', ')}). ` +
+            `Move or remove them first, or set move_attributes_to`
           );
         }
+        const target = ensureGroup(family, removal.move_attributes_to);
+        for (const attr of sortByPosition(group.custom_attributes)) {
+          target.custom_attributes.push({ code: attr.code, position: target.custom_attributes.length + 1 });
+        }
       }
+
+      family.attribute_groups = family.attribute_groups.filter(g => g.code !== removal.group_code);
+      changes.push(`Removed group '${removal.group_code}'`);
     }
 
+    if (input.group_order) {
+      const unknown = input.group_order.filter(code => !family.attribute_groups.some(g => g.code === code));
+      if (unknown.length > 0) {
+        throw new Error(`group_order references groups not in the family: ${unknown.join(', ')}`);
+      }
+      family.attribute_groups = resequence(family.attribute_groups, input.group_order);
+      changes.push('Reordered groups');
+    }
+
+    for (const order of input.attribute_order || []) {
+      const group = family.attribute_groups.find(g => g.code === order.group_code);
+      if (!group) {
+        throw new Error(`attribute_order references group '${order.group_code}' which is not in the family`);
+      }
+      const unknown = order.attribute_codes.filter(code => !group.custom_attributes.some(a => a.code === code));
+      if (unknown.length > 0) {
+        throw new Error(`attribute_order for group '${order.group_code}' references attributes not in it: ${unknown.join(', ')}`);
+      }
+      group.custom_attributes = resequence(group.custom_attributes, order.attribute_codes);
+      changes.push(`Reordered attributes in '${order.group_code}'`);
+    }
+
+    if (!findAttributeGroup(family, 'sku') && findAttributeGroup(existingFamily, 'sku')) {
+      throw new Error(`The 'sku' attribute must stay in the family`);
+    }
+
+    family.attribute_groups = sortByPosition(family.attribute_groups);
+
     // Update the family
     const response = await client.put<{ data: Family }>(
       `/api/v1/rest/families/${input.code}`,
       family
     );
 
+    client.schemaCache.invalidate('family', input.code);
+
     return {
       success: true,
       family: response.data,
+      changes,
     };
   } catch (error) {
-    throw new Error(`Failed to update family: ${error}`);
+    throw new Error(`Failed to update family: ${error}`, { cause: error });
   }
 }
+
+/**
+ * unopim_clone_family
+ * Creates a new family from an existing family's attribute groups and attributes
+ */
+export async function cloneFamily(
+  client: UnoPimClient,
+  input: CloneFamilyInput
+): Promise<{
+  success: boolean;
+  family: Family;
+  source_code: string;
+  attribute_count: number;
+}> {
+  try {
+    client.schemaCache.invalidate('family', input.source_code);
+    const source = await client.schemaCache.getFamily(input.source_code);
+
+    // Deep copy so the cached source family is never mutated
+    const family: Family = {
+      code: input.code,
+      labels: input.labels,
+      attribute_groups: copyAttributeGroups(source.attribute_groups),
+    };
+
+    for (const attr of input.remove_attributes || []) {
+      if (attr.attribute_code === 'sku') {
+        throw new Error(`The 'sku' attribute cannot be removed from a family`);
+      }
+      for (const group of family.attribute_groups) {
+        group.custom_attributes = group.custom_attributes.filter(a => a.code !== attr.attribute_code);
+      }
+    }
+
+    // Every group the clone places attributes in must exist in UnoPim
+    await assertGroupsExist(client, family, new Set((input.add_attributes || []).map(a => a.group_code)));
+
+    for (const attr of input.add_attributes || []) {
+      if (findAttributeGroup(family, attr.attribute_code)) continue;
+
+      const group = ensureGroup(family, attr.group_code);
+      group.custom_attributes.push({
+        code: attr.attribute_code,
+        position: attr.position || group.custom_attributes.length + 1,
+      });
+    }
+
+    const response = await client.post<{ data: Family }>(
+      '/api/v1/rest/families',
+      family
+    );
+
+    client.schemaCache.invalidate('family', input.code);
+
+    return {
+      success: true,
+      family: response.data,
+      source_code: input.source_code,
+      attribute_count: family.attribute_groups.reduce((sum, group) => sum + group.custom_attributes.length, 0),
+    };
+  } catch (error) {
+    throw new Error(`Failed to clone family '${input.source_code}': ${error}`, { cause: error });
+  }
+}
+
+/**
+ * unopim_delete_family
+ * Deletes a family, refusing while any product still belongs to it
+ */
+export async function deleteFamily(
+  client: UnoPimClient,
+  input: DeleteFamilyInput
+): Promise<{
+  success: boolean;
+  product_count?: number;
+  sample_skus?: string[];
+  message: string;
+}> {
+  try {
+    // filter[family] narrows the scan server-side; the client-side check guards against the filter being
+    // ignored. No item cap: the family must not be deleted while any unchecked product could still use it
+    let productCount = 0;
+    const sampleSkus: string[] = [];
+    for await (const product of client.paginate<Product>('/api/v1/rest/products', {
+      params: { 'filter[family]': input.code },
+      maxItems: Number.POSITIVE_INFINITY,
+    })) {
+      if (product.family !== input.code) continue;
+      productCount++;
+      if (sampleSkus.length < 10) sampleSkus.push(product.sku);
+    }
+
+    if (productCount > 0) {
+      return {
+        success: false,
+        product_count: productCount,
+        sample_skus: sampleSkus,
+        message: `Family '${input.code}' is still used by ${productCount} product(s). Move or delete those products first`,
+      };
+    }
+
+    await client.delete(`/api/v1/rest/families/${input.code}`);
+
+    client.schemaCache.invalidate('family', input.code);
+
+    return {
+      success: true,
+      message: `Family '${input.code}' deleted successfully`,
+    };
+  } catch (error) {
+    if (isNotFound(error)) {
+      return {
+        success: false,
+        message: `Family '${input.code}' not found`,
+      };
+    }
+    throw new Error(`Failed to delete family '${input.code}': ${error}`, { cause: error });
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function copyAttributeGroups(groups: FamilyAttributeGroup[] | undefined): FamilyAttributeGroup[] {
+  return (groups || []).map(group => ({
+    code: group.code,
+    position: group.position,
+    custom_attributes: (group.custom_attributes || []).map(attr => ({
+      code: attr.code,
+      position: attr.position,
+    })),
+  }));
+}
+
+/**
+ * Fails with a clear message when a referenced attribute group does not exist in UnoPim
+ * Groups already in the family are known to exist and are not looked up
+ */
+async function assertGroupsExist(client: UnoPimClient, family: Family, groupCodes: Set<string>): Promise<void> {
+  const knownInFamily = new Set(family.attribute_groups.map(g => g.code));
+  const unchecked = [...groupCodes].filter(code => !knownInFamily.has(code));
+  if (unchecked.length === 0) {
+    return;
+  }
+
+  const { groups } = await getAttributeGroups(client, { limit: 100, page: 1, all: true });
+  const available = new Set(groups.map(g => g.code));
+  const missing = unchecked.filter(code => !available.has(code));
+  if (missing.length > 0) {
+    throw new Error(
+      `Attribute group(s) do not exist: ${missing.join(', ')}. Create them with unopim_create_attribute_group first`
+    );
+  }
+}
+
+function findAttributeGroup(family: Family, attributeCode: string): FamilyAttributeGroup | undefined {
+  return (family.attribute_groups || []).find(group =>
+    (group.custom_attributes || []).some(a => a.code === attributeCode)
+  );
+}
+
+/**
+ * Returns the family's group with this code, appending an empty one if missing
+ */
+function ensureGroup(family: Family, groupCode: string, position?: number): FamilyAttributeGroup {
+  let group = family.attribute_groups.find(g => g.code === groupCode);
+  if (!group) {
+    group = {
+      code: groupCode,
+      position: position ?? Math.max(0, ...family.attribute_groups.map(g => g.position)) + 1,
+      custom_attributes: [],
+    };
+    family.attribute_groups.push(group);
+  }
+  return group;
+}
+
+function sortByPosition<T extends { position: number }>(items: T[]): T[] {
+  return [...items].sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Puts the listed codes first in the given order, keeps the rest in their current
+ * order after them and renumbers positions 1..n
+ */
+function resequence<T extends { code: string; position: number }>(items: T[], order: string[]): T[] {
+  const listed = [...new Set(order)]
+    .map(code => items.find(item => item.code === code))
+    .filter((item): item is T => item !== undefined);
+  const rest = sortByPosition(items.filter(item => !listed.includes(item)));
+  return [...listed, ...rest].map((item, index) => ({ ...item, position: index + 1 }));
+}
+
+// ============================================================================
+// Tool Definitions
+// ============================================================================
+
+export const familyTools = [
+  defineTool({
+    name: 'unopim_create_family',
+    description: `Create a product family. Families define which attributes a product type has.
+
+⚠️ MANDATORY PRE-REQUISITES:
+1. Call unopim_get_schema() FIRST to check what exists
+2. ALL attributes in custom_attributes MUST exist (use unopim_create_attribute first!)
+3. For select/multiselect attributes, options MUST exist (use unopim_create_attribute_options)
+4. ONLY THEN create the family
+
+❌ THIS WILL FAIL IF:
+- Any attribute code in custom_attributes does not exist
+- Attribute group code is invalid
+
+✅ CORRECT ORDER:
+1. unopim_get_attributes() - Check what exists
+2. unopim_create_attribute() - For EACH missing attribute
+3. unopim_create_attribute_options() - For select/multiselect types
+4. unopim_create_family() - Only after all attributes exist
+
+IMPORTANT - attribute_groups format:
+Each group MUST have: code, position (number), custom_attributes (array)
+
+Example:
+{
+  "code": "clothing",
+  "labels": { "en_US": "Clothing" },
+  "attribute_groups": [
+    {
+      "code": "general",
+      "position": 1,
+      "custom_attributes": [
+        { "code": "sku", "position": 1 },
+        { "code": "name", "position": 2 }
+      ]
+    }
+  ]
+}`,
+    inputSchema: CreateFamilyInputSchema,
+    handler: createFamily,
+  }),
+  defineTool({
+    name: 'unopim_update_family',
+    description: `Update an existing family: labels, groups and where attributes sit.
+
+All fields except code are optional and applied in this order:
+1. update_labels - merged into existing labels
+2. add_groups - add attribute groups (must exist in UnoPim)
+3. add_attributes - add attributes; the group is added to the family if missing
+4. move_attributes - move attributes already in the family to another group
+5. remove_attributes - drop attributes from the family (sku cannot be removed)
+6. remove_groups - drop groups; set move_attributes_to if the group still has attributes
+7. group_order - renumber group positions in the listed order
+8. attribute_order - renumber attribute positions within a group
+
+Example:
+{
+  "code": "clothing",
+  "add_attributes": [{ "group_code": "technical", "attribute_code": "fabric" }],
+  "move_attributes": [{ "attribute_code": "weight", "to_group_code": "technical" }],
+  "group_order": ["general", "technical", "marketing"]
+}`,
+    inputSchema: UpdateFamilyInputSchema,
+    handler: updateFamily,
+  }),
+  defineTool({
+    name: 'unopim_clone_family',
+    description: `Create a new family by copying an existing one.
+
+Copies every attribute group (with positions) and its custom_attributes from source_code,
+then applies remove_attributes and add_attributes. Adding to a group the source does not
+have appends that group at the end.
+
+Example:
+{
+  "source_code": "tshirts",
+  "code": "hoodies",
+  "labels": { "en_US": "Hoodies" },
+  "add_attributes": [{ "group_code": "general", "attribute_code": "hood_type" }],
+  "remove_attributes": [{ "attribute_code": "sleeve_length" }]
+}`,
+    inputSchema: CloneFamilyInputSchema,
+    handler: cloneFamily,
+  }),
+  defineTool({
+    name: 'unopim_delete_family',
+    description: `Delete a family.
+
+Refuses (success=false with product_count and sample_skus) while any product still uses the family.`,
+    inputSchema: DeleteFamilyInputSchema,
+    handler: deleteFamily,
+  }),
+];
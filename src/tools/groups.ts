@@ -1,10 +1,13 @@
 /**
  * Attribute group management tools for UnoPim
- * Handles attribute group creation and retrieval
+ * Handles attribute group creation, retrieval, updates and deletion
  */
 
 import { z } from 'zod';
-import type { UnoPimClient } from '../client/unopim-client.js';
+import { MAX_PAGINATED_ITEMS, type UnoPimClient } from '../client/unopim-client.js';
+import { defineTool } from './registry.js';
+import { getFamilies } from './schema.js';
+import { isNotFound } from '../types/errors.js';
 import type { AttributeGroup } from '../types/unopim.js';
 
 // ============================================================================
@@ -14,19 +17,37 @@ import type { AttributeGroup } from '../types/unopim.js';
 export const GetAttributeGroupsInputSchema = z.object({
   limit: z.number().optional().default(100),
   page: z.number().optional().default(1),
+  all: z.boolean().optional().default(false).describe('Fetch every page (up to the hard item cap) instead of a single page'),
 });
 
 export const CreateAttributeGroupInputSchema = z.object({
-  code: z.string().regex(/^[a-z0-9_]+$/, 'Code must be lowercase alphanumeric with underscores'),
+  code: z.string().regex(/^[a-z0-9_]+$/, 'Code must be lowercase alphanumeric with underscores')
+    .describe('Unique group code (lowercase, underscores)'),
   labels: z.record(z.string(), z.string()).refine(
     (labels) => Object.keys(labels).length > 0,
     'At least one label is required'
-  ),
-  position: z.number().optional(),
+  ).describe('Labels by locale'),
+  position: z.number().optional().describe('Sort order position'),
+});
+
+export const UpdateAttributeGroupInputSchema = z.object({
+  code: z.string().describe('The attribute group code to update'),
+  labels: z.record(z.string(), z.string()).optional()
+    .describe('Labels to add or change by locale; merged into the existing labels'),
+  position: z.number().optional().describe('Sort order position'),
+}).refine(
+  (input) => input.labels !== undefined || input.position !== undefined,
+  'Provide labels and/or position'
+);
+
+export const DeleteAttributeGroupInputSchema = z.object({
+  code: z.string().describe('The attribute group code to delete'),
 });
 
 export type GetAttributeGroupsInput = z.infer<typeof GetAttributeGroupsInputSchema>;
 export type CreateAttributeGroupInput = z.infer<typeof CreateAttributeGroupInputSchema>;
+export type UpdateAttributeGroupInput = z.infer<typeof UpdateAttributeGroupInputSchema>;
+export type DeleteAttributeGroupInput = z.infer<typeof DeleteAttributeGroupInputSchema>;
 
 // ============================================================================
 // Tool Implementations
@@ -51,8 +72,16 @@ export async function getAttributeGroups(
   total: number;
   page: number;
   last_page: number;
+  truncated?: boolean;
 }> {
   try {
+    if (input.all) {
+      const { items, truncated } = await client.getAll<AttributeGroup>('/api/v1/rest/attribute-groups', {
+        pageSize: input.limit,
+      });
+      return { groups: items, total: items.length, page: 1, last_page: 1, truncated };
+    }
+
     const params = new URLSearchParams();
     if (input.limit) params.append('limit', input.limit.toString());
     if (input.page) params.append('page', input.page.toString());
@@ -68,7 +97,7 @@ export async function getAttributeGroups(
       last_page: response.last_page,
     };
   } catch (error) {
-    throw new Error(`Failed to get attribute groups: ${error}`);
+    throw new Error(`Failed to get attribute groups: ${error}`, { cause: error });
   }
 }
 
@@ -103,6 +132,154 @@ export async function createAttributeGroup(
       attribute_group: response.data,
     };
   } catch (error) {
-    throw new Error(`Failed to create attribute group: ${error}`);
+    throw new Error(`Failed to create attribute group: ${error}`, { cause: error });
+  }
+}
+
+/**
+ * unopim_update_attribute_group
+ * Updates labels (merged) and position of an attribute group
+ */
+export async function updateAttributeGroup(
+  client: UnoPimClient,
+  input: UpdateAttributeGroupInput
+): Promise<{
+  success: boolean;
+  attribute_group: AttributeGroup;
+}> {
+  try {
+    const existing = await client.get<AttributeGroup | { data: AttributeGroup }>(
+      `/api/v1/rest/attribute-groups/${input.code}`
+    );
+    const current = 'data' in existing ? existing.data : existing;
+
+    const groupData: Record<string, unknown> = {
+      labels: { ...current.labels, ...input.labels },
+    };
+
+    if (input.position !== undefined) {
+      groupData.position = input.position;
+    }
+
+    const response = await client.put<{ data?: AttributeGroup }>(
+      `/api/v1/rest/attribute-groups/${input.code}`,
+      groupData
+    );
+
+    return {
+      success: true,
+      attribute_group: response.data || { ...current, ...groupData } as AttributeGroup,
+    };
+  } catch (error) {
+    throw new Error(`Failed to update attribute group '${input.code}': ${error}`, { cause: error });
   }
 }
+
+/**
+ * unopim_delete_attribute_group
+ * Deletes an attribute group, refusing while any family places attributes in it
+ */
+export async function deleteAttributeGroup(
+  client: UnoPimClient,
+  input: DeleteAttributeGroupInput
+): Promise<{
+  success: boolean;
+  used_by_families?: Array<{ family: string; attributes: string[] }>;
+  message: string;
+}> {
+  try {
+    const { families, pagination } = await getFamilies(client, { limit: 100, page: 1, all: true });
+    if (pagination.truncated) {
+      return {
+        success: false,
+        message: `More than ${MAX_PAGINATED_ITEMS} families exist, so usage of attribute group '${input.code}' cannot be checked completely; nothing was deleted`,
+      };
+    }
+    const usedBy = families.flatMap(family => {
+      const group = (family.attribute_groups || []).find(g => g.code === input.code);
+      const attributes = (group?.custom_attributes || []).map(a => a.code);
+      return attributes.length > 0 ? [{ family: family.code, attributes }] : [];
+    });
+
+    if (usedBy.length > 0) {
+      return {
+        success: false,
+        used_by_families: usedBy,
+        message: `Attribute group '${input.code}' still holds attributes in ${usedBy.length} family(ies): ${usedBy.map(u => u.family).join(', ')}. ` +
+          `Move them with unopim_update_family (move_attributes or remove_groups) first`,
+      };
+    }
+
+    await client.delete(`/api/v1/rest/attribute-groups/${input.code}`);
+
+    // Families may still list the (now empty) group
+    client.schemaCache.invalidate('family');
+
+    return {
+      success: true,
+      message: `Attribute group '${input.code}' deleted successfully`,
+    };
+  } catch (error) {
+    if (isNotFound(error)) {
+      return {
+        success: false,
+        message: `Attribute group '${input.code}' not found`,
+      };
+    }
+    throw new Error(`Failed to delete attribute group '${input.code}': ${error}`, { cause: error });
+  }
+}
+
+// ============================================================================
+// Tool Definitions
+// ============================================================================
+
+export const groupTools = [
+  defineTool({
+    name: 'unopim_get_attribute_groups',
+    description: `Get all attribute groups from UnoPim.
+
+Attribute groups are used to organize attributes in families. Use this to:
+1. Check which groups exist before creating a family
+2. Find group codes to reference in families
+
+Common groups: "general", "marketing", "technical", "media"`,
+    inputSchema: GetAttributeGroupsInputSchema,
+    handler: getAttributeGroups,
+  }),
+  defineTool({
+    name: 'unopim_create_attribute_group',
+    description: `Create a new attribute group. Groups organize attributes within families.
+
+WORKFLOW for setting up a product structure:
+1. Create attribute groups (e.g., "general", "prices", "media")
+2. Create attributes (e.g., "name", "price", "image")
+3. Create family with groups and assign attributes to groups
+4. Create products using the family
+
+Example:
+{
+  "code": "technical_specs",
+  "labels": { "en_US": "Technical Specifications", "da_DK": "Tekniske Specifikationer" }
+}`,
+    inputSchema: CreateAttributeGroupInputSchema,
+    handler: createAttributeGroup,
+  }),
+  defineTool({
+    name: 'unopim_update_attribute_group',
+    description: `Update an attribute group's labels and/or position.
+
+labels are MERGED: { "de_DE": "Technik" } adds German and keeps the other locales.`,
+    inputSchema: UpdateAttributeGroupInputSchema,
+    handler: updateAttributeGroup,
+  }),
+  defineTool({
+    name: 'unopim_delete_attribute_group',
+    description: `Delete an attribute group.
+
+Refuses (success=false with used_by_families) while any family still places attributes in the group.
+Use unopim_update_family with move_attributes or remove_groups + move_attributes_to first.`,
+    inputSchema: DeleteAttributeGroupInputSchema,
+    handler: deleteAttributeGroup,
+  }),
+];
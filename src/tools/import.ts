@@ -0,0 +1,566 @@
+/**
+ * Product file import tools for UnoPim
+ * Reads CSV, XLSX or JSONL files, maps columns to attributes and upserts one product per row
+ */
+
+import { z } from 'zod';
+import { basename, dirname, extname, join } from 'node:path';
+import type { UnoPimClient } from '../client/unopim-client.js';
+import { defineTool } from './registry.js';
+import {
+  createProduct,
+  getFamilyAttributeInfo,
+  getProduct,
+  structureProductValues,
+  updateProduct,
+  type CreateProductInput,
+  type FamilyAttributeInfo,
+} from './products.js';
+import { ensureCategoryPaths } from './categories.js';
+import { runWithConcurrency } from '../utils/concurrency.js';
+import { toCode } from '../utils/codes.js';
+import { readTable, writeTable, type Cell, type TableRow } from '../utils/tabular.js';
+import { isNotFound } from '../types/errors.js';
+import { resolveFilePath } from '../utils/files.js';
+import type { Attribute } from '../types/unopim.js';
+
+// ============================================================================
+// Input Schemas
+// ============================================================================
+
+const ColumnTargetSchema = z.object({
+  attribute: z.string().describe('Attribute code, or one of the special targets sku, family, categories'),
+  locale: z.string().optional(),
+  channel: z.string().optional(),
+  currency: z.string().optional().describe('Currency for price attributes, e.g. "EUR"'),
+});
+
+export const ImportProductsFileInputSchema = z.object({
+  path: z.string().describe('Path to a .csv, .xlsx or .jsonl file, relative to the server files directory'),
+  format: z.enum(['csv', 'jsonl', 'xlsx']).optional().describe('File format (default: from the file extension)'),
+  csv_delimiter: z.string().length(1).optional().describe('CSV delimiter (default: detected from the header)'),
+  decimal_separator: z.enum(['.', ',']).optional()
+    .describe('Decimal separator of number and price cells (default: the last of "." and "," when both appear, else the only one used once)'),
+  mapping: z.record(z.string(), z.union([z.string(), ColumnTargetSchema, z.null()])).optional()
+    .describe('Column name -> attribute code, { attribute, locale, channel, currency }, or null to ignore the column'),
+  family: z.string().optional().describe('Family for new products when the file has no family column'),
+  locale: z.string().optional().default('en_US').describe('Locale for localizable columns without an explicit locale'),
+  channel: z.string().optional().default('default').describe('Channel for channel-specific columns without an explicit channel'),
+  currency: z.string().optional().default('USD').describe('Currency for price columns without an explicit currency'),
+  categories_are_paths: z.boolean().optional().default(false)
+    .describe('Treat category cells as paths like "Clothing > Men" and create missing categories'),
+  mode: z.enum(['upsert', 'create_only', 'update_only']).optional().default('upsert'),
+  dry_run: z.boolean().optional().default(false).describe('Convert and validate rows without writing to UnoPim'),
+  concurrency: z.number().int().min(1).max(20).optional().default(4)
+    .describe('Maximum number of parallel API calls (1-20, default 4)'),
+});
+
+export type ImportProductsFileInput = z.infer<typeof ImportProductsFileInputSchema>;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type ColumnTarget =
+  | { kind: 'sku' | 'family' | 'categories' }
+  | { kind: 'attribute'; attribute: Attribute; locale?: string; channel?: string; currency?: string };
+
+type DecimalSeparator = '.' | ',';
+
+// Category codes per path cell; paths that could not be created fail their rows
+interface CategoryPathCodes {
+  codes: Map<string, string>;
+  failed: Map<string, string>;
+}
+
+type RowStatus = 'created' | 'updated' | 'skipped' | 'failed' | 'valid';
+
+// A type alias (not an interface) so results can be written directly as report rows
+type RowResult = {
+  row: number;
+  sku: string;
+  status: RowStatus;
+  message: string;
+};
+
+const SPECIAL_TARGETS = ['sku', 'family', 'categories'] as const;
+
+// Rows are read and processed in batches so large files are never fully in memory
+const BATCH_SIZE = 100;
+
+// Failed rows returned inline; the report file has all of them
+const MAX_REPORTED_ERRORS = 20;
+
+// ============================================================================
+// Tool Implementations
+// ============================================================================
+
+/**
+ * unopim_import_products_file
+ * Imports products from a file and writes a per-row report next to it
+ */
+export async function importProductsFile(
+  client: UnoPimClient,
+  input: ImportProductsFileInput
+): Promise<{
+  success: boolean;
+  report_path: string;
+  total_rows: number;
+  counts: Record<RowStatus, number>;
+  columns: Record<string, string>;
+  ignored_columns: string[];
+  errors: RowResult[];
+  dry_run?: boolean;
+}> {
+  try {
+    const path = await resolveFilePath(input.path);
+    const reportPath = join(dirname(path), `${basename(path, extname(path))}.import-report.csv`);
+    const columns = new Map<string, ColumnTarget>();
+    const ignored: string[] = [];
+    const counts: Record<RowStatus, number> = { created: 0, updated: 0, skipped: 0, failed: 0, valid: 0 };
+    const errors: RowResult[] = [];
+    let processed = 0;
+    let batch: TableRow[] = [];
+
+    // Row results go straight to the report; only counts and the first errors are kept
+    const flush = async function* (): AsyncGenerator<RowResult> {
+      if (batch.length === 0) return;
+      const categoryCodes = input.categories_are_paths
+        ? await resolveCategoryPaths(client, batch, columns, input)
+        : undefined;
+      const outcomes = await runWithConcurrency(
+        batch,
+        (row) => importRow(client, row, columns, categoryCodes, input),
+        { concurrency: input.concurrency }
+      );
+      for (const [index, outcome] of outcomes.entries()) {
+        const result: RowResult = outcome.status === 'fulfilled' ? outcome.value : {
+          row: batch[index].row,
+          sku: '',
+          status: 'failed',
+          message: outcome.status === 'rejected' ? String(outcome.reason) : 'Not processed',
+        };
+        processed++;
+        counts[result.status]++;
+        if (result.status === 'failed' && errors.length < MAX_REPORTED_ERRORS) {
+          errors.push(result);
+        }
+        yield result;
+      }
+      batch = [];
+    };
+
+    const importRows = async function* (): AsyncGenerator<RowResult> {
+      for await (const row of readTable(path, { format: input.format, delimiter: input.csv_delimiter })) {
+        // CSV/XLSX headers are fixed, but JSONL rows may introduce new keys at any line
+        const newHeaders = Object.keys(row.values).filter(header => !columns.has(header) && !ignored.includes(header));
+        if (newHeaders.length > 0) {
+          const resolved = await resolveColumns(client, newHeaders, input);
+          resolved.columns.forEach((target, header) => columns.set(header, target));
+          ignored.push(...resolved.ignored);
+          if (processed === 0 && batch.length === 0 && ![...columns.values()].some(target => target.kind === 'sku')) {
+            throw new Error(`No sku column found - map one with mapping: { "<column>": "sku" }`);
+          }
+        }
+
+        batch.push(row);
+        if (batch.length >= BATCH_SIZE) {
+          yield* flush();
+        }
+      }
+      yield* flush();
+    };
+
+    await writeTable(reportPath, importRows(), { format: 'csv', columns: ['row', 'sku', 'status', 'message'] });
+
+    return {
+      success: counts.failed === 0,
+      report_path: reportPath,
+      total_rows: processed,
+      counts,
+      columns: Object.fromEntries([...columns].map(([column, target]) => [column, describeTarget(target)])),
+      ignored_columns: ignored,
+      errors,
+      ...(input.dry_run && { dry_run: true }),
+    };
+  } catch (error) {
+    throw new Error(`Failed to import products from '${input.path}': ${error}`, { cause: error });
+  }
+}
+
+// ============================================================================
+// Column Mapping
+// ============================================================================
+
+/**
+ * Resolves every header to a target
+ * Explicit mapping wins; other headers are read as code[-locale][-channel][-currency],
+ * the same naming unopim_export_products writes
+ */
+async function resolveColumns(
+  client: UnoPimClient,
+  headers: string[],
+  input: ImportProductsFileInput
+): Promise<{ columns: Map<string, ColumnTarget>; ignored: string[] }> {
+  const columns = new Map<string, ColumnTarget>();
+  const ignored: string[] = [];
+
+  for (const header of headers) {
+    const mapped = input.mapping?.[header];
+    if (mapped === null) {
+      ignored.push(header);
+      continue;
+    }
+
+    const spec = typeof mapped === 'string' ? { attribute: mapped } : mapped ?? parseColumnName(header);
+    if ((SPECIAL_TARGETS as readonly string[]).includes(spec.attribute)) {
+      columns.set(header, { kind: spec.attribute as typeof SPECIAL_TARGETS[number] });
+      continue;
+    }
+
+    // Only a missing attribute makes an unknown column; outages and auth errors abort the import
+    const attribute = await client.schemaCache.getAttribute(spec.attribute).catch((error: unknown) => {
+      if (isNotFound(error)) return undefined;
+      throw error;
+    });
+    if (!attribute) {
+      if (mapped !== undefined) {
+        throw new Error(`Column '${header}' is mapped to unknown attribute '${spec.attribute}'`);
+      }
+      ignored.push(header);
+      continue;
+    }
+
+    // A trailing three-letter uppercase part of a price column is its currency
+    let { locale, channel, currency } = spec as z.infer<typeof ColumnTargetSchema>;
+    if (attribute.type === 'price' && !currency && channel && /^[A-Z]{3}$/.test(channel)) {
+      currency = channel;
+      channel = undefined;
+    }
+
+    columns.set(header, { kind: 'attribute', attribute, locale, channel, currency });
+  }
+
+  return { columns, ignored };
+}
+
+function parseColumnName(header: string): z.infer<typeof ColumnTargetSchema> {
+  const [code, ...parts] = header.split('-').map(part => part.trim());
+  const spec: z.infer<typeof ColumnTargetSchema> = { attribute: toCode(code) };
+
+  for (const part of parts) {
+    if (/^[a-z]{2,3}_[A-Z]{2}$/.test(part) && !spec.locale) {
+      spec.locale = part;
+    } else if (!spec.channel) {
+      spec.channel = part;
+    } else {
+      spec.currency = part;
+    }
+  }
+
+  return spec;
+}
+
+function describeTarget(target: ColumnTarget): string {
+  if (target.kind !== 'attribute') return target.kind;
+  return [target.attribute.code, target.locale, target.channel, target.currency].filter(Boolean).join('-');
+}
+
+// ============================================================================
+// Row Import
+// ============================================================================
+
+async function importRow(
+  client: UnoPimClient,
+  { row, values: cells }: TableRow,
+  columns: Map<string, ColumnTarget>,
+  categoryCodes: CategoryPathCodes | undefined,
+  input: ImportProductsFileInput
+): Promise<RowResult> {
+  const cell = (kind: 'sku' | 'family' | 'categories'): string => {
+    const column = [...columns].find(([, target]) => target.kind === kind)?.[0];
+    return column === undefined ? '' : String(cells[column] ?? '').trim();
+  };
+
+  const sku = cell('sku');
+  if (!sku) {
+    return { row, sku, status: 'failed', message: 'Missing sku' };
+  }
+
+  try {
+    const existing = await getProduct(client, { sku });
+    if (existing.found && input.mode === 'create_only') {
+      return { row, sku, status: 'skipped', message: 'Product already exists (mode create_only)' };
+    }
+    if (!existing.found && input.mode === 'update_only') {
+      return { row, sku, status: 'skipped', message: 'Product does not exist (mode update_only)' };
+    }
+
+    const family = cell('family') || existing.product?.family || input.family;
+    if (!family) {
+      return { row, sku, status: 'failed', message: 'No family: add a family column or pass family' };
+    }
+
+    const familyInfo = await getFamilyAttributeInfo(client, family);
+    const { values, warnings } = await buildRowValues(client, sku, cells, columns, familyInfo, input);
+
+    const categories = splitList(cell('categories')).map(category => {
+      if (!categoryCodes) return category;
+      const code = categoryCodes.codes.get(category);
+      if (code === undefined) {
+        throw new Error(`Category path '${category}' could not be created: ${categoryCodes.failed.get(category) ?? 'unknown error'}`);
+      }
+      return code;
+    });
+    if (categories.length > 0) {
+      values.categories = categories;
+    }
+
+    const note = warnings.length > 0 ? ` (${warnings.join('; ')})` : '';
+
+    if (input.dry_run) {
+      return { row, sku, status: 'valid', message: `Would ${existing.found ? 'update' : 'create'}${note}` };
+    }
+
+    const result = existing.found
+      ? await updateProduct(client, { sku, values: values as CreateProductInput['values'] })
+      : await createProduct(client, { sku, family, values: values as CreateProductInput['values'] });
+
+    if (!result.success) {
+      const errors = (result.errors || []).map(error => `${error.field}: ${error.message}`).join('; ');
+      return { row, sku, status: 'failed', message: errors || 'Rejected by UnoPim' };
+    }
+
+    return { row, sku, status: existing.found ? 'updated' : 'created', message: `OK${note}` };
+  } catch (error) {
+    return { row, sku, status: 'failed', message: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Converts a row's attribute cells and structures them by scope
+ * Cells are grouped per locale/channel so structureProductValues can place each group,
+ * then the groups are merged into one ProductValues object
+ */
+async function buildRowValues(
+  client: UnoPimClient,
+  sku: string,
+  cells: Record<string, Cell>,
+  columns: Map<string, ColumnTarget>,
+  familyInfo: FamilyAttributeInfo,
+  input: ImportProductsFileInput
+): Promise<{ values: Record<string, unknown>; warnings: string[] }> {
+  const groups = new Map<string, { locale: string; channel: string; raw: Record<string, unknown> }>();
+  const warnings: string[] = [];
+
+  for (const [column, target] of columns) {
+    if (target.kind !== 'attribute') continue;
+    const cell = cells[column];
+    if (cell === undefined || cell === null || String(cell).trim() === '') continue;
+
+    const { attribute } = target;
+    const locale = target.locale ?? input.locale;
+    const channel = target.channel ?? input.channel;
+    const key = `${locale}|${channel}`;
+    const group = groups.get(key) ?? { locale, channel, raw: {} };
+    groups.set(key, group);
+
+    let value: unknown;
+    try {
+      value = await convertCell(client, cell, attribute, input.decimal_separator);
+    } catch (error) {
+      throw new Error(`Column '${column}': ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (attribute.type === 'price') {
+      const currency = target.currency ?? input.currency;
+      group.raw[attribute.code] = { ...(group.raw[attribute.code] as Record<string, unknown>), [currency]: value };
+    } else {
+      group.raw[attribute.code] = value;
+    }
+
+    if (!familyInfo.attributes.some(a => a.code === attribute.code) && attribute.code !== 'sku') {
+      warnings.push(`'${attribute.code}' is not in family '${familyInfo.familyCode}'`);
+    }
+  }
+
+  const values: Record<string, unknown> = { common: { sku } };
+  for (const { locale, channel, raw } of groups.values()) {
+    mergeValues(values, structureProductValues({ ...raw, sku }, familyInfo, locale, channel));
+  }
+
+  return { values, warnings: [...new Set(warnings)] };
+}
+
+/**
+ * Converts a raw cell to the value format UnoPim expects for the attribute type
+ */
+async function convertCell(
+  client: UnoPimClient,
+  cell: Cell,
+  attribute: Attribute,
+  decimalSeparator?: DecimalSeparator
+): Promise<unknown> {
+  const text = String(cell).trim();
+
+  switch (attribute.type) {
+    case 'boolean': {
+      const normalized = text.toLowerCase();
+      if (['1', 'true', 'yes', 'y', 'ja', 'on'].includes(normalized)) return true;
+      if (['0', 'false', 'no', 'n', 'nej', 'nein', 'off'].includes(normalized)) return false;
+      throw new Error(`'${text}' is not a boolean`);
+    }
+    case 'price':
+      return parseNumber(cell, true, decimalSeparator);
+    case 'select':
+      return resolveOption(client, attribute.code, text);
+    case 'multiselect': {
+      const codes = [];
+      for (const part of splitList(text)) {
+        codes.push(await resolveOption(client, attribute.code, part));
+      }
+      return codes.join(',');
+    }
+    default:
+      if (attribute.validation === 'number') return parseNumber(cell, false, decimalSeparator);
+      if (attribute.validation === 'decimal') return parseNumber(cell, true, decimalSeparator);
+      return typeof cell === 'number' ? String(cell) : text;
+  }
+}
+
+/**
+ * Normalizes a number cell to a numeric string
+ * Cells that are already numbers (XLSX) pass through unchanged. In text, a separator that appears
+ * once is the decimal point ("2.125", "0,5"); grouping separators are only removed when both "."
+ * and "," appear ("1.234,50", "1,234.50") or when one repeats ("1.234.567"). An explicit
+ * decimalSeparator overrides the guess
+ */
+export function parseNumber(cell: Cell, allowDecimals: boolean, decimalSeparator?: DecimalSeparator): string {
+  const text = String(cell).trim();
+  let value: number;
+
+  if (typeof cell === 'number') {
+    value = cell;
+  } else {
+    const compact = text.replace(/[\s'\u00a0]/g, '');
+    const decimal = decimalSeparator ?? guessDecimalSeparator(compact);
+    const grouping = decimal === '.' ? ',' : '.';
+    const normalized = compact.split(grouping).join('').replace(decimal, '.');
+    value = normalized === '' ? NaN : Number(normalized);
+  }
+
+  if (!Number.isFinite(value)) {
+    throw new Error(`'${text}' is not a number`);
+  }
+  if (!allowDecimals && !Number.isInteger(value)) {
+    throw new Error(`'${text}' is not a whole number`);
+  }
+  return String(value);
+}
+
+function guessDecimalSeparator(text: string): DecimalSeparator {
+  const dot = text.lastIndexOf('.');
+  const comma = text.lastIndexOf(',');
+  if (dot >= 0 && comma >= 0) {
+    return dot > comma ? '.' : ',';
+  }
+  if (comma >= 0) {
+    return text.indexOf(',') === comma ? ',' : '.'; // "1,234,567" repeats, so it groups
+  }
+  return text.indexOf('.') === dot ? '.' : ',';
+}
+
+/**
+ * Maps a cell to an option code: exact code, then case-insensitive code or label
+ */
+async function resolveOption(client: UnoPimClient, attributeCode: string, text: string): Promise<string> {
+  const options = await client.schemaCache.getAttributeOptions(attributeCode);
+  const wanted = text.toLowerCase();
+  const match = options.find(option => option.code === text)
+    ?? options.find(option => option.code.toLowerCase() === wanted || option.code === toCode(text))
+    ?? options.find(option => Object.values(option.labels || {}).some(label => label.toLowerCase() === wanted));
+
+  if (!match) {
+    throw new Error(`'${text}' is not an option of '${attributeCode}' (create it with unopim_create_attribute_options)`);
+  }
+  return match.code;
+}
+
+/**
+ * Resolves category path cells of a batch to leaf codes, creating missing categories
+ */
+async function resolveCategoryPaths(
+  client: UnoPimClient,
+  rows: TableRow[],
+  columns: Map<string, ColumnTarget>,
+  input: ImportProductsFileInput
+): Promise<CategoryPathCodes> {
+  const column = [...columns].find(([, target]) => target.kind === 'categories')?.[0];
+  if (column === undefined) return { codes: new Map(), failed: new Map() };
+
+  const paths = [...new Set(rows.flatMap(row => splitList(String(row.values[column] ?? ''))))];
+  if (paths.length === 0) return { codes: new Map(), failed: new Map() };
+
+  const result = await ensureCategoryPaths(client, {
+    paths,
+    separator: '>',
+    locale: input.locale,
+    root: 'root',
+    dry_run: input.dry_run,
+  });
+  return {
+    codes: new Map(Object.entries(result.paths)),
+    failed: new Map((result.failed || []).map(failure => [failure.path, failure.error])),
+  };
+}
+
+/**
+ * Splits list cells on commas, semicolons or pipes
+ */
+function splitList(text: string): string[] {
+  return text.split(/[,;|]/).map(part => part.trim()).filter(Boolean);
+}
+
+/**
+ * Deep-merges structured values from one locale/channel group into the accumulated values
+ */
+function mergeValues(target: Record<string, unknown>, source: Record<string, unknown>): void {
+  for (const [key, value] of Object.entries(source)) {
+    const current = target[key];
+    if (isPlainObject(current) && isPlainObject(value)) {
+      mergeValues(current, value);
+    } else {
+      target[key] = value;
+    }
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// ============================================================================
+// Tool Definitions
+// ============================================================================
+
+export const importTools = [
+  defineTool({
+    name: 'unopim_import_products_file',
+    description: `Import products from a CSV, XLSX or JSONL file in the server files directory (UNOPIM_FILES_DIR).
+
+Each row becomes one product (created or updated by sku). Columns are mapped to attributes:
+- mapping: { "Product Name": { "attribute": "name", "locale": "da_DK" }, "Colour": "color", "Notes": null }
+- Unmapped columns are read as code[-locale][-channel][-currency] (the unopim_export_products format),
+  e.g. name-en_US-ecommerce, price-EUR, color
+- Special targets: sku (required), family, categories (comma-separated codes, or paths with categories_are_paths)
+
+Values are converted by attribute type: booleans (yes/no/1/0), numbers and prices (1.234,50 or 1,234.50),
+select/multiselect (option code or label -> code). Each row's values are placed in the correct
+common/locale/channel section for its family, like unopim_smart_create_product.
+
+Writes <file>.import-report.csv next to the input with row, sku, status and message.
+Use dry_run=true first to check conversion without writing anything.`,
+    inputSchema: ImportProductsFileInputSchema,
+    handler: importProductsFile,
+  }),
+];
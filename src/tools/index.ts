@@ -0,0 +1,134 @@
+/**
+ * Shared tool registry for UnoPim MCP Server
+ * Mounted by both the stdio and HTTP entrypoints so they expose the same tools
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ErrorCode,
+  McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { UnoPimClient } from '../client/unopim-client.js';
+import { findApiError, type UnoPimError } from '../types/errors.js';
+import { toJsonInputSchema, type ToolDefinition } from './registry.js';
+import { schemaTools } from './schema.js';
+import { attributeTools } from './attributes.js';
+import { groupTools } from './groups.js';
+import { familyTools } from './families.js';
+import { categoryTools } from './categories.js';
+import { productTools } from './products.js';
+import { exportTools } from './export.js';
+import { importTools } from './import.js';
+import { datamodelTools } from './datamodel.js';
+import { snapshotTools } from './snapshot.js';
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export const tools: ToolDefinition[] = [
+  ...schemaTools,
+  ...attributeTools,
+  ...groupTools,
+  ...familyTools,
+  ...categoryTools,
+  ...productTools,
+  ...exportTools,
+  ...importTools,
+  ...datamodelTools,
+  ...snapshotTools,
+];
+
+const toolsByName = new Map(tools.map(tool => [tool.name, tool]));
+
+/**
+ * Registers tools/list and tools/call handlers for every tool in the registry
+ */
+export function registerTools(server: Server, client: UnoPimClient): void {
+  // List available tools
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: tools.map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: toJsonInputSchema(tool.inputSchema),
+    })),
+  }));
+
+  // Handle tool calls
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+
+    const tool = toolsByName.get(name);
+    if (!tool) {
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    }
+
+    try {
+      const input = tool.inputSchema.parse(args ?? {});
+      const result = await tool.handler(client, input);
+      return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+    } catch (error) {
+      // Tool failures are results, not protocol errors, so the model can read and act on them
+      return {
+        content: [{ type: 'text', text: JSON.stringify(toErrorEnvelope(name, error), null, 2) }],
+        isError: true,
+      };
+    }
+  });
+}
+
+/**
+ * Builds the JSON body of a failed tool call
+ * message keeps the tool's context ("Failed to update product 'X': ..."), while error carries
+ * the structured UnoPim error (code, details, parsed field errors) when there is one
+ */
+function toErrorEnvelope(name: string, error: unknown): {
+  success: false;
+  tool: string;
+  message: string;
+  error: UnoPimError;
+} {
+  // Log detailed error for debugging
+  console.error(`\n❌ Tool '${name}' failed:`);
+  console.error(`   Error: ${error}`);
+
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof Error && error.name === 'ZodError') {
+    const issues = (error as Error & { issues: Array<{ path: PropertyKey[]; message: string }> }).issues;
+    return {
+      success: false,
+      tool: name,
+      message: 'Invalid tool input',
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid tool input',
+        field_errors: issues.map(issue => ({
+          field: issue.path.map(String).join('.') || '(input)',
+          message: issue.message,
+        })),
+        retry_possible: false,
+      },
+    };
+  }
+
+  const apiError = findApiError(error);
+  if (apiError) {
+    console.error(`   API Details:`, JSON.stringify(apiError.details, null, 2));
+    return { success: false, tool: name, message, error: apiError.toJSON() };
+  }
+
+  return {
+    success: false,
+    tool: name,
+    message,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message,
+      field_errors: [],
+      retry_possible: false,
+    },
+  };
+}
@@ -4,14 +4,26 @@
  */
 
 import { z } from 'zod';
-import type { UnoPimClient } from '../client/unopim-client.js';
-import type { Product, ConfigurableProduct, ProductVariant, ProductValues, BulkCreateResult } from '../types/unopim.js';
+import { MAX_PAGINATED_ITEMS, type UnoPimClient, type UploadProgress } from '../client/unopim-client.js';
+import { defineTool } from './registry.js';
+import { runWithConcurrency } from '../utils/concurrency.js';
+import { listScopedValues, splitOptionCodes, type AttributeScope } from '../utils/product-values.js';
+import {
+  ProductFilterSchema,
+  hasClientSideFilters,
+  matchesFilter,
+  projectProduct,
+  type ProductFilter,
+  type ValueScope,
+} from '../utils/product-filter.js';
+import { isNotFound, isEndpointUnavailable, findApiError, parseFieldErrors, type FieldError } from '../types/errors.js';
+import type { Product, ConfigurableProduct, ProductVariant, ProductValues, BulkCreateResult, Category } from '../types/unopim.js';
 
 // ============================================================================
 // Types for smart product creation
 // ============================================================================
 
-interface AttributeMetadata {
+export interface AttributeMetadata {
   code: string;
   type: string;
   is_required: boolean;
@@ -20,7 +32,7 @@ interface AttributeMetadata {
   validation?: string | null;
 }
 
-interface FamilyAttributeInfo {
+export interface FamilyAttributeInfo {
   familyCode: string;
   attributes: AttributeMetadata[];
   requiredAttributes: AttributeMetadata[];
@@ -40,6 +52,10 @@ interface ValidationResult {
 // Input Schemas
 // ============================================================================
 
+// Parallel API calls for bulk operations; the client's rate limiter still applies
+const ConcurrencySchema = z.number().int().min(1).max(20).optional().default(4)
+  .describe('Maximum number of parallel API calls (1-20, default 4)');
+
 const ProductValuesSchema = z.object({
   common: z.record(z.string(), z.unknown()).optional(),
   categories: z.array(z.string()).optional(),
@@ -54,9 +70,9 @@ const ProductValuesSchema = z.object({
 });
 
 export const CreateProductInputSchema = z.object({
-  sku: z.string(),
-  family: z.string(),
-  values: ProductValuesSchema,
+  sku: z.string().describe('Unique product SKU'),
+  family: z.string().describe('Family code (e.g., "default", "clothing")'),
+  values: ProductValuesSchema.describe('Product values with: common (attributes), categories (array at top level!), locale_specific, channel_specific, associations'),
 });
 
 const ProductVariantSchema = z.object({
@@ -66,48 +82,79 @@ const ProductVariantSchema = z.object({
 });
 
 export const CreateConfigurableProductInputSchema = z.object({
-  sku: z.string(),
-  family: z.string(),
-  super_attributes: z.array(z.string()).min(1, 'At least one super attribute is required'),
-  values: ProductValuesSchema,
-  variants: z.array(ProductVariantSchema).optional(),
+  sku: z.string().describe('Unique SKU for the configurable product'),
+  family: z.string().describe('Family code'),
+  super_attributes: z.array(z.string()).min(1, 'At least one super attribute is required')
+    .describe('Array of attribute codes used for variants (e.g., ["color", "size"])'),
+  values: ProductValuesSchema.describe('Product values with common, categories, associations, channel_specific, channel_locale_specific'),
+  variants: z.array(ProductVariantSchema).optional()
+    .describe('Array of variants, each with sku and attributes object matching super_attributes'),
+  concurrency: ConcurrencySchema,
+});
+
+export const AddVariantInputSchema = z.object({
+  parent: z.string().describe('SKU of the parent configurable product'),
+  family: z.string().describe('Family code (same as parent)'),
+  sku: z.string().describe('Unique SKU for the variant'),
+  values: ProductValuesSchema.describe('Product values with common, categories, associations, channel_specific, channel_locale_specific'),
+  variant_attributes: z.record(z.string(), z.string())
+    .describe('Object with super_attribute values, e.g., { "color": "red", "size": "small" }'),
+});
+
+export const UpdateConfigurableProductInputSchema = z.object({
+  sku: z.string().describe('SKU of the configurable product to update'),
+  values: ProductValuesSchema.describe('Product values with common, categories, associations'),
+  super_attributes: z.array(z.string()).optional().describe('Array of attribute codes used for variants'),
+  variants: z.array(ProductVariantSchema).optional().describe('Array of variants with sku and attributes'),
 });
 
 export const BulkCreateProductsInputSchema = z.object({
   products: z.array(CreateProductInputSchema),
   on_error: z.enum(['stop', 'continue']).default('continue'),
-  validate_only: z.boolean().optional().default(false),
+  validate_only: z.boolean().optional().default(false)
+    .describe('If true, validates every product against the live schema without creating anything'),
+  locale: z.string().optional().default('en_US').describe('Locale used to check required locale-specific values (validate_only)'),
+  channel: z.string().optional().default('default').describe('Channel used to check required channel-specific values (validate_only)'),
+  concurrency: ConcurrencySchema,
 });
 
 export const GetProductsInputSchema = z.object({
-  filter_sku: z.string().optional(),
-  filter_family: z.string().optional(),
-  filter_type: z.enum(['simple', 'configurable']).optional(),
+  filter_sku: z.string().optional().describe('Filter by SKU (partial match)'),
+  filter_family: z.string().optional().describe('Filter by family code'),
+  filter_type: z.enum(['simple', 'configurable']).optional().describe('Filter by product type'),
+  filters: ProductFilterSchema.optional()
+    .describe('Attribute conditions, category membership, parent and created/updated date ranges'),
+  locale: z.string().optional().describe('Only match and return values in this locale'),
+  channel: z.string().optional().describe('Only match and return values in this channel'),
+  attributes: z.array(z.string()).optional().describe('Only return these attribute values (sku is always included)'),
   limit: z.number().optional().default(100),
   page: z.number().optional().default(1),
+  all: z.boolean().optional().default(false).describe('Fetch every page (up to the hard item cap) instead of a single page'),
 });
 
 export const GetProductInputSchema = z.object({
-  sku: z.string(),
+  sku: z.string().describe('The product SKU'),
 });
 
 export const UpdateProductInputSchema = z.object({
-  sku: z.string(),
-  values: ProductValuesSchema,
+  sku: z.string().describe('The product SKU to update'),
+  values: ProductValuesSchema.describe('The product values to update'),
 });
 
 export const UpsertProductInputSchema = z.object({
-  sku: z.string(),
-  family: z.string(),
-  values: ProductValuesSchema,
+  sku: z.string().describe('The product SKU'),
+  family: z.string().describe('The family code (required for creation)'),
+  values: ProductValuesSchema.describe('The product values'),
 });
 
 export const DeleteProductInputSchema = z.object({
-  sku: z.string(),
+  sku: z.string().describe('The SKU of the product to delete'),
 });
 
 export type CreateProductInput = z.infer<typeof CreateProductInputSchema>;
 export type CreateConfigurableProductInput = z.infer<typeof CreateConfigurableProductInputSchema>;
+export type AddVariantInput = z.infer<typeof AddVariantInputSchema>;
+export type UpdateConfigurableProductInput = z.infer<typeof UpdateConfigurableProductInputSchema>;
 export type BulkCreateProductsInput = z.infer<typeof BulkCreateProductsInputSchema>;
 export type GetProductsInput = z.infer<typeof GetProductsInputSchema>;
 export type GetProductInput = z.infer<typeof GetProductInputSchema>;
@@ -167,7 +214,7 @@ export async function createProduct(
       product: response.data,
     };
   } catch (error) {
-    throw new Error(`Failed to create product: ${error}`);
+    throw new Error(`Failed to create product: ${error}`, { cause: error });
   }
 }
 
@@ -218,8 +265,8 @@ export async function createConfigurableProduct(
       configurableProduct = response.data || { sku: input.sku } as ConfigurableProduct;
     } catch (error) {
       // If configrable-products endpoint doesn't exist, try with correct spelling, then fall back to products
-      const errorStr = String(error);
-      if (errorStr.includes('404') || errorStr.includes('not found')) {
+      // A 404 on a collection POST can only mean the route is missing
+      if (isEndpointUnavailable(error) || isNotFound(error)) {
         try {
           const response = await client.post<{ data: ConfigurableProduct; success?: boolean; message?: string }>(
             '/api/v1/rest/configurable-products',  // Correct spelling fallback
@@ -227,8 +274,7 @@ export async function createConfigurableProduct(
           );
           configurableProduct = response.data || { sku: input.sku } as ConfigurableProduct;
         } catch (error2) {
-          const errorStr2 = String(error2);
-          if (errorStr2.includes('404') || errorStr2.includes('not found')) {
+          if (isEndpointUnavailable(error2) || isNotFound(error2)) {
             const response = await client.post<{ data: ConfigurableProduct; success?: boolean; message?: string }>(
               '/api/v1/rest/products',
               configurableData
@@ -244,54 +290,44 @@ export async function createConfigurableProduct(
     }
 
     // Create variants if provided
-    const variantResults: Array<{ sku: string; success: boolean; error?: string }> = [];
+    const variants = input.variants || [];
+    const outcomes = await runWithConcurrency(variants, async (variant) => {
+      // Create variant with parent link and variant attributes
+      // Per UnoPim docs: variants are created via /products with parent
+      const variantValues = { ...(variant.values || {}) };
+      if (!variantValues.common) {
+        variantValues.common = {};
+      }
+      (variantValues.common as Record<string, unknown>)['sku'] = variant.sku;
 
-    if (input.variants && input.variants.length > 0) {
-      for (const variant of input.variants) {
-        try {
-          // Create variant with parent link and variant attributes
-          // Per UnoPim docs: variants are created via /products with parent
-          const variantValues = { ...(variant.values || {}) };
-          if (!variantValues.common) {
-            variantValues.common = {};
-          }
-          (variantValues.common as Record<string, unknown>)['sku'] = variant.sku;
-
-          const variantData = {
-            parent: input.sku, // Link to parent configurable product
-            family: input.family,
-            type: 'simple',      // Variants are simple products
-            additional: null,
-            values: {
-              common: variantValues.common,
-              categories: variantValues.categories,
-              locale_specific: variantValues.locale_specific,
-              channel_specific: variantValues.channel_specific,
-              channel_locale_specific: variantValues.channel_locale_specific,
-            },
-            variant: {
-              attributes: variant.attributes, // e.g., { "color": "option1" }
-            },
-          };
-
-          await client.post<{ data: Product }>(
-            '/api/v1/rest/products',
-            variantData
-          );
+      const variantData = {
+        parent: input.sku, // Link to parent configurable product
+        family: input.family,
+        type: 'simple',      // Variants are simple products
+        additional: null,
+        values: {
+          common: variantValues.common,
+          categories: variantValues.categories,
+          locale_specific: variantValues.locale_specific,
+          channel_specific: variantValues.channel_specific,
+          channel_locale_specific: variantValues.channel_locale_specific,
+        },
+        variant: {
+          attributes: variant.attributes, // e.g., { "color": "option1" }
+        },
+      };
 
-          variantResults.push({
-            sku: variant.sku,
-            success: true,
-          });
-        } catch (error) {
-          variantResults.push({
-            sku: variant.sku,
-            success: false,
-            error: String(error),
-          });
-        }
-      }
-    }
+      await client.post<{ data: Product }>(
+        '/api/v1/rest/products',
+        variantData
+      );
+    }, { concurrency: input.concurrency });
+
+    const variantResults: Array<{ sku: string; success: boolean; error?: string }> = outcomes.map((outcome, i) => (
+      outcome.status === 'rejected'
+        ? { sku: variants[i].sku, success: false, error: String(outcome.reason) }
+        : { sku: variants[i].sku, success: true }
+    ));
 
     return {
       success: true,
@@ -299,10 +335,100 @@ export async function createConfigurableProduct(
       variant_results: variantResults.length > 0 ? variantResults : undefined,
     };
   } catch (error) {
-    throw new Error(`Failed to create configurable product: ${error}`);
+    throw new Error(`Failed to create configurable product: ${error}`, { cause: error });
   }
 }
 
+/**
+ * unopim_add_variant
+ * Adds a variant (child product) to an existing configurable product
+ */
+export async function addVariant(
+  client: UnoPimClient,
+  input: AddVariantInput
+): Promise<{
+  success: boolean;
+  message: string;
+  sku: string;
+  parent: string;
+  variant_attributes: Record<string, string>;
+}> {
+  // Ensure SKU is in values.common
+  const variantValues = { ...input.values };
+  if (!variantValues.common) {
+    variantValues.common = {};
+  }
+  (variantValues.common as Record<string, unknown>)['sku'] = input.sku;
+
+  const variantData = {
+    parent: input.parent,
+    family: input.family,
+    additional: null,
+    values: variantValues,
+    variant: {
+      attributes: input.variant_attributes,
+    },
+  };
+
+  const response = await client.post<{ success?: boolean; message?: string; data?: unknown }>(
+    '/api/v1/rest/products',
+    variantData
+  );
+
+  return {
+    success: true,
+    message: response.message || 'Variant created successfully',
+    sku: input.sku,
+    parent: input.parent,
+    variant_attributes: input.variant_attributes,
+  };
+}
+
+/**
+ * unopim_update_configurable_product
+ * Updates an existing configurable product's values
+ */
+export async function updateConfigurableProduct(
+  client: UnoPimClient,
+  input: UpdateConfigurableProductInput
+): Promise<{
+  success: boolean;
+  message: string;
+  sku: string;
+}> {
+  // Ensure SKU is in values.common
+  const updateValues = { ...input.values };
+  if (!updateValues.common) {
+    updateValues.common = {};
+  }
+  (updateValues.common as Record<string, unknown>)['sku'] = input.sku;
+
+  const updateData: Record<string, unknown> = {
+    parent: null,
+    additional: null,
+    values: updateValues,
+  };
+
+  if (input.super_attributes) {
+    updateData.super_attributes = input.super_attributes;
+  }
+  if (input.variants) {
+    updateData.variants = input.variants;
+  }
+
+  // NOTE: UnoPim API has a typo - endpoint is "configrable" not "configurable"
+  const response = await client.put<{ success?: boolean; message?: string; data?: unknown }>(
+    `/api/v1/rest/configrable-products/${encodeURIComponent(input.sku)}`,
+    updateData
+  );
+
+  return {
+    success: true,
+    message: response.message || 'Configurable product updated successfully',
+    sku: input.sku,
+  };
+}
+
 /**
  * unopim_bulk_create_products
  * Batch creation of products with error handling
@@ -311,69 +437,57 @@ export async function bulkCreateProducts(
   client: UnoPimClient,
   input: BulkCreateProductsInput
 ): Promise<BulkCreateResult> {
-  const results: Array<{ sku: string; success: boolean; error?: string }> = [];
-  let createdCount = 0;
-  let failedCount = 0;
-
   // Validation only mode
   if (input.validate_only) {
-    return {
-      success: true,
-      created_count: 0,
-      failed_count: 0,
-      results: input.products.map(p => ({
-        sku: p.sku,
-        success: true,
-      })),
-    };
+    return validateBulkProducts(client, input);
   }
 
-  for (const product of input.products) {
-    try {
-      const productData = {
-        sku: product.sku,
-        family: product.family,
-        type: 'simple',
-        values: product.values,
-      };
+  // Stop on error if requested - in-flight products still finish, the rest are skipped
+  const outcomes = await runWithConcurrency(input.products, async (product) => {
+    const productData = {
+      sku: product.sku,
+      family: product.family,
+      type: 'simple',
+      values: product.values,
+    };
 
-      await client.post<{ data: Product }>(
-        '/api/v1/rest/products',
-        productData
-      );
+    await client.post<{ data: Product }>(
+      '/api/v1/rest/products',
+      productData
+    );
+  }, { concurrency: input.concurrency, stopOnError: input.on_error === 'stop' });
 
-      results.push({
-        sku: product.sku,
-        success: true,
-      });
+  // Results stay in input order
+  const results: Array<{ sku: string; success: boolean; error?: string }> = [];
+  let createdCount = 0;
+  let failedCount = 0;
+  let skippedCount = 0;
+
+  outcomes.forEach((outcome, i) => {
+    const sku = input.products[i].sku;
+    if (outcome.status === 'fulfilled') {
+      results.push({ sku, success: true });
       createdCount++;
-    } catch (error) {
-      const errorMessage = String(error);
-      results.push({
-        sku: product.sku,
-        success: false,
-        error: errorMessage,
-      });
+    } else if (outcome.status === 'rejected') {
+      results.push({ sku, success: false, error: String(outcome.reason) });
       failedCount++;
-
-      // Stop on error if requested
-      if (input.on_error === 'stop') {
-        break;
-      }
+    } else {
+      skippedCount++;
     }
-  }
+  });
 
   return {
     success: failedCount === 0,
     created_count: createdCount,
     failed_count: failedCount,
+    skipped_count: skippedCount > 0 ? skippedCount : undefined,
     results,
   };
 }
 
 /**
  * unopim_get_products
- * Lists products with optional filtering
+ * Lists products; sku/family/type filter server-side, everything else client-side while paging
  */
 export async function getProducts(
   client: UnoPimClient,
@@ -384,36 +498,48 @@ export async function getProducts(
     current_page: number;
     total_pages: number;
     total_items: number;
+    truncated?: boolean;
+  };
+  filtering?: {
+    scanned: number;
+    matched: number;
+    complete: boolean;
   };
 }> {
   try {
-    const params: Record<string, string | number> = {
-      page: input.page || 1,
-      limit: input.limit || 100,
-    };
+    const scope: ValueScope = { locale: input.locale, channel: input.channel };
+    const project = (product: Product): Product => projectProduct(product, input.attributes, scope);
 
-    // Add filters if provided
-    if (input.filter_sku) {
-      params['filter[sku]'] = input.filter_sku;
+    if (hasClientSideFilters(input.filters)) {
+      return await getFilteredProducts(client, input, scope, project);
     }
-    if (input.filter_family) {
-      params['filter[family]'] = input.filter_family;
-    }
-    if (input.filter_type) {
-      params['filter[type]'] = input.filter_type;
+
+    const params = buildProductListParams(input);
+
+    if (input.all) {
+      const { items, truncated } = await client.getAll<Product>('/api/v1/rest/products', {
+        params,
+        pageSize: input.limit || 100,
+      });
+      return {
+        products: items.map(project),
+        pagination: { current_page: 1, total_pages: 1, total_items: items.length, truncated },
+      };
     }
 
-    const queryString = Object.entries(params)
-      .map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(v)}`)
-      .join('&');
+    const url = client.buildUrl('/api/v1/rest/products', {
+      ...params,
+      page: input.page || 1,
+      limit: input.limit || 100,
+    });
 
     const response = await client.get<{
       data: Product[];
       meta?: { current_page: number; last_page: number; total: number };
-    }>(`/api/v1/rest/products?${queryString}`);
+    }>(url);
 
     return {
-      products: response.data || [],
+      products: (response.data || []).map(project),
       pagination: {
         current_page: response.meta?.current_page || 1,
         total_pages: response.meta?.last_page || 1,
@@ -421,10 +547,92 @@ export async function getProducts(
       },
     };
   } catch (error) {
-    throw new Error(`Failed to fetch products: ${error}`);
+    throw new Error(`Failed to fetch products: ${error}`, { cause: error });
+  }
+}
+
+/**
+ * Pages through matches of client-side filters
+ * page/limit apply to the matching products, not to the underlying API pages
+ */
+async function getFilteredProducts(
+  client: UnoPimClient,
+  input: GetProductsInput,
+  scope: ValueScope,
+  project: (product: Product) => Product
+): Promise<Awaited<ReturnType<typeof getProducts>>> {
+  const limit = input.limit || 100;
+  const page = input.all ? 1 : input.page || 1;
+  const wanted = input.all ? MAX_PAGINATED_ITEMS : limit;
+  const skip = (page - 1) * limit;
+
+  const products: Product[] = [];
+  const stats = { scanned: 0 };
+  let matched = 0;
+  let complete = true;
+
+  for await (const product of streamProducts(client, input, input.filters, scope, stats)) {
+    if (products.length === wanted) {
+      complete = false; // At least one more match exists; it is not counted
+      break;
+    }
+    matched++;
+    if (matched <= skip) continue;
+    products.push(project(product));
+  }
+
+  // An incomplete scan only knows the matches up to the end of this page
+  return {
+    products,
+    pagination: {
+      current_page: page,
+      total_pages: complete ? Math.max(1, Math.ceil(matched / limit)) : page + 1,
+      total_items: matched,
+      ...((input.all || !complete) && { truncated: !complete }),
+    },
+    filtering: { scanned: stats.scanned, matched, complete },
+  };
+}
+
+/**
+ * Streams every product matching the server-side params and client-side filter
+ * Only matches are yielded; stats.scanned counts every product read so far
+ */
+export async function* streamProducts(
+  client: UnoPimClient,
+  query: { filter_sku?: string; filter_family?: string; filter_type?: string; limit?: number },
+  filter: ProductFilter | undefined,
+  scope: ValueScope,
+  stats: { scanned: number } = { scanned: 0 }
+): AsyncGenerator<Product, void, undefined> {
+  for await (const product of client.paginate<Product>('/api/v1/rest/products', {
+    params: buildProductListParams(query),
+    pageSize: query.limit || 100,
+    maxItems: Number.POSITIVE_INFINITY, // Non-matches are dropped, so memory stays bounded by the caller
+  })) {
+    stats.scanned++;
+    if (!filter || matchesFilter(product, filter, scope)) {
+      yield product;
+    }
   }
 }
 
+function buildProductListParams(
+  query: { filter_sku?: string; filter_family?: string; filter_type?: string }
+): Record<string, string> {
+  const params: Record<string, string> = {};
+  if (query.filter_sku) {
+    params['filter[sku]'] = query.filter_sku;
+  }
+  if (query.filter_family) {
+    params['filter[family]'] = query.filter_family;
+  }
+  if (query.filter_type) {
+    params['filter[type]'] = query.filter_type;
+  }
+  return params;
+}
+
 /**
  * unopim_get_product
  * Gets a single product by SKU
@@ -446,13 +654,12 @@ export async function getProduct(
       product: response.data,
     };
   } catch (error) {
-    // Check if it's a 404
-    if (String(error).includes('404') || String(error).includes('not found')) {
+    if (isNotFound(error)) {
       return {
         found: false,
       };
     }
-    throw new Error(`Failed to get product '${input.sku}': ${error}`);
+    throw new Error(`Failed to get product '${input.sku}': ${error}`, { cause: error });
   }
 }
 
@@ -479,28 +686,8 @@ export async function updateProduct(
       product: response.data,
     };
   } catch (error) {
-    // Try to extract validation errors from API response
-    const errorStr = String(error);
-    const errors: Array<{ field: string; message: string }> = [];
-    
-    // Parse JSON error if available
-    try {
-      const match = errorStr.match(/\{[\s\S]*\}/);
-      if (match) {
-        const errorObj = JSON.parse(match[0]);
-        if (errorObj.errors) {
-          for (const [field, messages] of Object.entries(errorObj.errors)) {
-            const msgArray = Array.isArray(messages) ? messages : [messages];
-            for (const msg of msgArray) {
-              errors.push({ field, message: String(msg) });
-            }
-          }
-        }
-      }
-    } catch {
-      // Ignore parse errors
-    }
-
+    // Validation failures are reported per field instead of failing the tool call
+    const errors = findApiError(error)?.fieldErrors ?? [];
     if (errors.length > 0) {
       return {
         success: false,
@@ -508,8 +695,8 @@ export async function updateProduct(
         errors,
       };
     }
-    
-    throw new Error(`Failed to update product '${input.sku}': ${error}`);
+
+    throw new Error(`Failed to update product '${input.sku}': ${error}`, { cause: error });
   }
 }
 
@@ -559,7 +746,7 @@ export async function upsertProduct(
       };
     }
   } catch (error) {
-    throw new Error(`Failed to upsert product '${input.sku}': ${error}`);
+    throw new Error(`Failed to upsert product '${input.sku}': ${error}`, { cause: error });
   }
 }
 
@@ -581,13 +768,13 @@ export async function deleteProduct(
       message: `Product '${input.sku}' deleted successfully`,
     };
   } catch (error) {
-    if (String(error).includes('404') || String(error).includes('not found')) {
+    if (isNotFound(error)) {
       return {
         success: false,
         message: `Product '${input.sku}' not found`,
       };
     }
-    throw new Error(`Failed to delete product '${input.sku}': ${error}`);
+    throw new Error(`Failed to delete product '${input.sku}': ${error}`, { cause: error });
   }
 }
 
@@ -598,19 +785,14 @@ export async function deleteProduct(
 /**
  * Fetches all attribute metadata for a given family
  * This is crucial for understanding required fields and their scopes
+ * Family and attribute lookups go through the client's schema cache
  */
 export async function getFamilyAttributeInfo(
   client: UnoPimClient,
   familyCode: string
 ): Promise<FamilyAttributeInfo> {
   // 1. Get family structure
-  const familyResponse = await client.get<{
-    code: string;
-    attribute_groups: Array<{
-      code: string;
-      custom_attributes: Array<{ code: string; position: number }>;
-    }>;
-  }>(`/api/v1/rest/families/${familyCode}`);
+  const familyResponse = await client.schemaCache.getFamily(familyCode);
 
   // Extract all attribute codes from the family
   const attributeCodes: string[] = [];
@@ -620,31 +802,23 @@ export async function getFamilyAttributeInfo(
     }
   }
 
-  // 2. Fetch metadata for each attribute
+  // 2. Fetch metadata for each attribute (API returns 0/1 for flags)
+  const lookups = await Promise.all(attributeCodes.map(code =>
+    // Attribute might not exist, skip it
+    client.schemaCache.getAttribute(code).catch(() => null)
+  ));
+
   const attributes: AttributeMetadata[] = [];
-  
-  for (const code of attributeCodes) {
-    try {
-      const attrResponse = await client.get<{
-        code: string;
-        type: string;
-        is_required: number | boolean;
-        value_per_locale: number | boolean;
-        value_per_channel: number | boolean;
-        validation?: string | null;
-      }>(`/api/v1/rest/attributes/${code}`);
-
-      attributes.push({
-        code: attrResponse.code,
-        type: attrResponse.type,
-        is_required: Boolean(attrResponse.is_required),
-        value_per_locale: Boolean(attrResponse.value_per_locale),
-        value_per_channel: Boolean(attrResponse.value_per_channel),
-        validation: attrResponse.validation,
-      });
-    } catch {
-      // Attribute might not exist, skip it
-    }
+  for (const attrResponse of lookups) {
+    if (!attrResponse) continue;
+    attributes.push({
+      code: attrResponse.code,
+      type: attrResponse.type,
+      is_required: Boolean(attrResponse.is_required),
+      value_per_locale: Boolean(attrResponse.value_per_locale),
+      value_per_channel: Boolean(attrResponse.value_per_channel),
+      validation: attrResponse.validation,
+    });
   }
 
   // 3. Categorize attributes by scope
@@ -714,11 +888,15 @@ export function validateProductValues(
   }
 
   // Check for misplaced attributes (wrong scope)
-  for (const [key, value] of Object.entries(common)) {
-    if (key === 'sku') continue; // SKU is always in common
-    const attr = familyInfo.attributes.find(a => a.code === key);
-    if (attr && (attr.value_per_locale || attr.value_per_channel)) {
-      warnings.push({ field: `common.${key}`, message: `Attribute '${key}' should not be in 'common' - it requires locale/channel scope` });
+  for (const { scope, field, code } of listScopedValues(values)) {
+    if (code === 'sku') continue; // SKU is always in common
+    const attr = familyInfo.attributes.find(a => a.code === code);
+    if (!attr || getScopeLabel(attr) === scope) continue;
+
+    if (scope === 'common') {
+      warnings.push({ field, message: `Attribute '${code}' should not be in 'common' - it requires locale/channel scope` });
+    } else {
+      warnings.push({ field, message: `Attribute '${code}' should not be in '${scope}' - it belongs in '${getScopeLabel(attr)}'` });
     }
   }
 
@@ -729,6 +907,129 @@ export function validateProductValues(
   };
 }
 
+/**
+ * Returns the values section an attribute belongs in, based on its locale/channel flags
+ */
+function getScopeLabel(attr: AttributeMetadata): AttributeScope {
+  if (!attr.value_per_locale && !attr.value_per_channel) return 'common';
+  if (attr.value_per_locale && !attr.value_per_channel) return 'locale_specific';
+  if (!attr.value_per_locale && attr.value_per_channel) return 'channel_specific';
+  return 'channel_locale_specific';
+}
+
+/**
+ * Validates bulk products against the live schema without creating anything
+ * Runs the same checks as smart create (required attributes, scope placement) plus
+ * family existence, select/multiselect option codes and category codes
+ */
+async function validateBulkProducts(
+  client: UnoPimClient,
+  input: BulkCreateProductsInput
+): Promise<BulkCreateResult> {
+  // Share lookups across products - families are memoized here, options via the schema cache
+  const families = new Map<string, Promise<FamilyAttributeInfo | null>>();
+
+  const loadFamily = (code: string) => {
+    if (!families.has(code)) {
+      families.set(code, getFamilyAttributeInfo(client, code).catch((error) => {
+        if (isNotFound(error)) {
+          return null;
+        }
+        throw error;
+      }));
+    }
+    return families.get(code)!;
+  };
+
+  const loadOptions = (code: string): Promise<Set<string> | null> =>
+    client.schemaCache.getAttributeOptions(code)
+      .then(options => new Set(options.map(o => o.code)))
+      .catch(() => null);
+
+  const needsCategories = input.products.some(p => (p.values.categories || []).length > 0);
+  const categoryCodes = needsCategories
+    ? new Set((await client.getAll<Category>('/api/v1/rest/categories')).items.map(c => c.code))
+    : new Set<string>();
+
+  const outcomes = await runWithConcurrency(input.products, async (product) => {
+    const errors: Array<{ field: string; message: string }> = [];
+    const warnings: Array<{ field: string; message: string }> = [];
+    const values = product.values as Record<string, unknown>;
+
+    const familyInfo = await loadFamily(product.family);
+    if (!familyInfo) {
+      errors.push({ field: 'family', message: `Family '${product.family}' does not exist` });
+      return { errors, warnings };
+    }
+
+    // Required attributes and scope placement
+    const validation = validateProductValues(values, familyInfo, input.locale, input.channel);
+    errors.push(...validation.errors);
+    warnings.push(...validation.warnings);
+
+    // Option codes for select/multiselect attributes
+    for (const { field, code, value } of listScopedValues(values)) {
+      const attr = familyInfo.attributes.find(a => a.code === code);
+      if (!attr) {
+        if (code !== 'sku') {
+          warnings.push({ field, message: `Attribute '${code}' is not part of family '${product.family}'` });
+        }
+        continue;
+      }
+      if (attr.type !== 'select' && attr.type !== 'multiselect') continue;
+      const submitted = splitOptionCodes(value);
+      if (submitted.length === 0) continue;
+
+      const validCodes = await loadOptions(code);
+      if (!validCodes) {
+        warnings.push({ field, message: `Could not load options for attribute '${code}' to verify value` });
+        continue;
+      }
+
+      for (const optionCode of submitted) {
+        if (!validCodes.has(optionCode)) {
+          errors.push({ field, message: `Option '${optionCode}' does not exist for attribute '${code}' (option codes are case-sensitive)` });
+        }
+      }
+    }
+
+    // Category codes
+    for (const categoryCode of product.values.categories || []) {
+      if (!categoryCodes.has(categoryCode)) {
+        errors.push({ field: 'categories', message: `Category '${categoryCode}' does not exist` });
+      }
+    }
+
+    return { errors, warnings };
+  }, { concurrency: input.concurrency });
+
+  const results = outcomes.map((outcome, i) => {
+    const sku = input.products[i].sku;
+    if (outcome.status === 'fulfilled') {
+      const { errors, warnings } = outcome.value;
+      return {
+        sku,
+        success: errors.length === 0,
+        errors: errors.length > 0 ? errors : undefined,
+        warnings: warnings.length > 0 ? warnings : undefined,
+      };
+    }
+    return {
+      sku,
+      success: false,
+      error: outcome.status === 'rejected' ? String(outcome.reason) : 'Not validated',
+    };
+  });
+
+  const failedCount = results.filter(r => !r.success).length;
+  return {
+    success: failedCount === 0,
+    created_count: 0,
+    failed_count: failedCount,
+    results,
+  };
+}
+
 /**
  * Structures product values correctly based on family schema
  * This automatically places attributes in the correct scope
@@ -800,13 +1101,13 @@ export function structureProductValues(
 // ============================================================================
 
 export const SmartCreateProductInputSchema = z.object({
-  sku: z.string(),
-  family: z.string(),
-  locale: z.string().default('en_US'),
-  channel: z.string().default('default'),
+  sku: z.string().describe('Unique product identifier'),
+  family: z.string().describe('Family code'),
+  locale: z.string().default('en_US').describe('Locale for locale-specific values (default: en_US)'),
+  channel: z.string().default('default').describe('Channel for channel-specific values (default: default)'),
   values: z.record(z.string(), z.unknown()).describe('Flat object with attribute values - will be auto-structured based on family schema'),
-  categories: z.array(z.string()).optional(),
-  validate_only: z.boolean().optional().default(false),
+  categories: z.array(z.string()).optional().describe('Category codes'),
+  validate_only: z.boolean().optional().default(false).describe('If true, only validates without creating'),
 });
 
 export type SmartCreateProductInput = z.infer<typeof SmartCreateProductInputSchema>;
@@ -835,9 +1136,11 @@ export async function smartCreateProduct(
   structured_values?: Record<string, unknown>;
   errors?: Array<{ field: string; message: string }>;
 }> {
+  let familyInfo: FamilyAttributeInfo | undefined;
+
   try {
     // 1. Fetch family attribute info
-    const familyInfo = await getFamilyAttributeInfo(client, input.family);
+    familyInfo = await getFamilyAttributeInfo(client, input.family);
 
     // 2. Add SKU to values
     const valuesWithSku = {
@@ -923,47 +1226,19 @@ export async function smartCreateProduct(
       structured_values: structuredValues,
     };
   } catch (error) {
-    // Parse API error for detailed feedback
-    const errorStr = String(error);
-    const errors: Array<{ field: string; message: string }> = [];
-    
-    // Try to extract validation errors from API response
-    try {
-      const match = errorStr.match(/\{[\s\S]*\}/);
-      if (match) {
-        const parsed = JSON.parse(match[0]);
-        if (parsed.errors) {
-          for (const [field, messages] of Object.entries(parsed.errors)) {
-            const msgArray = Array.isArray(messages) ? messages : [messages];
-            for (const msg of msgArray) {
-              errors.push({ field, message: String(msg) });
-            }
-          }
-        }
-      }
-    } catch {
-      errors.push({ field: 'unknown', message: errorStr });
-    }
+    // Field errors from the API, or the failure itself when there are none
+    const apiError = findApiError(error);
+    const errors: FieldError[] = apiError && apiError.fieldErrors.length > 0
+      ? apiError.fieldErrors
+      : [{ field: 'unknown', message: error instanceof Error ? error.message : String(error) }];
 
-    // Still try to get family info for the error response
-    let familyInfoSummary = {
-      required_attributes: [] as string[],
-      common_attributes: [] as string[],
-      locale_attributes: [] as string[],
-      channel_locale_attributes: [] as string[],
+    // Reuse family info for the error response if it was fetched before the failure
+    const familyInfoSummary = {
+      required_attributes: familyInfo?.requiredAttributes.map(a => a.code) ?? [],
+      common_attributes: familyInfo?.commonAttributes.map(a => a.code) ?? [],
+      locale_attributes: familyInfo?.localeAttributes.map(a => a.code) ?? [],
+      channel_locale_attributes: familyInfo?.channelLocaleAttributes.map(a => a.code) ?? [],
     };
-    
-    try {
-      const familyInfo = await getFamilyAttributeInfo(client, input.family);
-      familyInfoSummary = {
-        required_attributes: familyInfo.requiredAttributes.map(a => a.code),
-        common_attributes: familyInfo.commonAttributes.map(a => a.code),
-        locale_attributes: familyInfo.localeAttributes.map(a => a.code),
-        channel_locale_attributes: familyInfo.channelLocaleAttributes.map(a => a.code),
-      };
-    } catch {
-      // Ignore
-    }
 
     return {
       success: false,
@@ -979,7 +1254,7 @@ export async function smartCreateProduct(
 // ============================================================================
 
 export const GetFamilySchemaInputSchema = z.object({
-  family: z.string(),
+  family: z.string().describe('The family code to get schema for'),
 });
 
 export type GetFamilySchemaInput = z.infer<typeof GetFamilySchemaInputSchema>;
@@ -1007,13 +1282,6 @@ export async function getFamilySchema(
 }> {
   const familyInfo = await getFamilyAttributeInfo(client, input.family);
 
-  const getScopeLabel = (attr: AttributeMetadata): string => {
-    if (!attr.value_per_locale && !attr.value_per_channel) return 'common';
-    if (attr.value_per_locale && !attr.value_per_channel) return 'locale_specific';
-    if (!attr.value_per_locale && attr.value_per_channel) return 'channel_specific';
-    return 'channel_locale_specific';
-  };
-
   const requiredAttrs = familyInfo.requiredAttributes.map(a => ({
     code: a.code,
     type: a.type,
@@ -1086,11 +1354,11 @@ export async function getFamilySchema(
 // ============================================================================
 
 export const UploadProductMediaInputSchema = z.object({
-  sku: z.string(),
-  attribute: z.string(),
-  file_url: z.string().optional(),
-  file_base64: z.string().optional(),
-  filename: z.string().optional(),
+  sku: z.string().describe('The product SKU to attach media to'),
+  attribute: z.string().describe('The attribute code (e.g., "image")'),
+  file_url: z.string().optional().describe('URL to fetch the file from'),
+  file_base64: z.string().optional().describe('Base64-encoded file content'),
+  filename: z.string().optional().describe('Filename (required for base64, optional for URL)'),
 });
 
 export type UploadProductMediaInput = z.infer<typeof UploadProductMediaInputSchema>;
@@ -1104,6 +1372,25 @@ interface MediaUploadResponse {
   errors?: Record<string, string[]>;
 }
 
+const PROGRESS_LOG_MIN_BYTES = 1024 * 1024;
+
+/**
+ * Logs upload progress in 25% steps for files large enough to take a while
+ */
+function logUploadProgress(filename: string, size: number): ((progress: UploadProgress) => void) | undefined {
+  if (size < PROGRESS_LOG_MIN_BYTES) {
+    return undefined;
+  }
+  let nextStep = 25;
+  return ({ loaded, total }) => {
+    const percent = Math.floor((loaded / total) * 100);
+    if (percent >= nextStep) {
+      console.error(`Uploading ${filename}: ${percent}% of ${(total / 1024 / 1024).toFixed(1)} MB`);
+      nextStep = Math.floor(percent / 25) * 25 + 25;
+    }
+  };
+}
+
 /**
  * Upload media file to a product attribute
  * Supports either a URL to fetch the file from, or base64-encoded file data
@@ -1116,6 +1403,7 @@ export async function uploadProductMedia(
   message: string;
   filePath?: string;
   error?: string;
+  errors?: FieldError[];
 }> {
   try {
     let arrayBuffer: ArrayBuffer;
@@ -1154,13 +1442,15 @@ export async function uploadProductMedia(
     formData.append('sku', input.sku);
     formData.append('attribute', input.attribute);
 
-    const uploadResult = await client.postMultipart<MediaUploadResponse>('/media-files/product', formData);
+    const uploadResult = await client.postMultipart<MediaUploadResponse>('/api/v1/rest/media-files/product', formData, {
+      onUploadProgress: logUploadProgress(filename, arrayBuffer.byteLength),
+    });
 
     if (!uploadResult.success) {
       return {
         success: false,
         message: uploadResult.message || 'Upload failed',
-        error: JSON.stringify(uploadResult.errors || uploadResult),
+        errors: parseFieldErrors(uploadResult),
       };
     }
 
@@ -1174,12 +1464,7 @@ export async function uploadProductMedia(
     }
 
     // Step 2: Fetch attribute metadata to determine scope
-    const attrResponse = await client.get<{
-      code: string;
-      type: string;
-      value_per_locale: number | boolean;
-      value_per_channel: number | boolean;
-    }>(`/api/v1/rest/attributes/${input.attribute}`);
+    const attrResponse = await client.schemaCache.getAttribute(input.attribute);
 
     const valuePerLocale = Boolean(attrResponse.value_per_locale);
     const valuePerChannel = Boolean(attrResponse.value_per_channel);
@@ -1243,20 +1528,16 @@ export async function uploadProductMedia(
       filePath,
     };
   } catch (error) {
-    return {
-      success: false,
-      message: 'Failed to upload media',
-      error: error instanceof Error ? error.message : String(error),
-    };
+    throw new Error(`Failed to upload media: ${error}`, { cause: error });
   }
 }
 
 export const UploadCategoryMediaInputSchema = z.object({
-  code: z.string(),
-  category_field: z.string(),
-  file_url: z.string().optional(),
-  file_base64: z.string().optional(),
-  filename: z.string().optional(),
+  code: z.string().describe('The category code'),
+  category_field: z.string().describe('The category field code (e.g., "image")'),
+  file_url: z.string().optional().describe('URL to fetch the file from'),
+  file_base64: z.string().optional().describe('Base64-encoded file content'),
+  filename: z.string().optional().describe('Filename (required for base64, optional for URL)'),
 });
 
 export type UploadCategoryMediaInput = z.infer<typeof UploadCategoryMediaInputSchema>;
@@ -1272,6 +1553,7 @@ export async function uploadCategoryMedia(
   message: string;
   filePath?: string;
   error?: string;
+  errors?: FieldError[];
 }> {
   try {
     let arrayBuffer: ArrayBuffer;
@@ -1305,7 +1587,9 @@ export async function uploadCategoryMedia(
     formData.append('code', input.code);
     formData.append('category_field', input.category_field);
 
-    const result = await client.postMultipart<MediaUploadResponse>('/media-files/category', formData);
+    const result = await client.postMultipart<MediaUploadResponse>('/api/v1/rest/media-files/category', formData, {
+      onUploadProgress: logUploadProgress(filename, arrayBuffer.byteLength),
+    });
     
     if (result.success) {
       return {
@@ -1317,14 +1601,373 @@ export async function uploadCategoryMedia(
       return {
         success: false,
         message: result.message || 'Upload failed',
-        error: JSON.stringify(result.errors || result),
+        errors: parseFieldErrors(result),
       };
     }
   } catch (error) {
-    return {
-      success: false,
-      message: 'Failed to upload media',
-      error: error instanceof Error ? error.message : String(error),
-    };
+    throw new Error(`Failed to upload media: ${error}`, { cause: error });
+  }
+}
+
+// ============================================================================
+// Tool Definitions
+// ============================================================================
+
+export const productTools = [
+  defineTool({
+    name: 'unopim_create_product',
+    description: `Create a simple product in UnoPim.
+
+⚠️ MANDATORY PRE-REQUISITES (in order):
+1. Call unopim_get_schema() FIRST to check what exists
+2. Ensure ALL required attributes exist (use unopim_create_attribute if not)
+3. Ensure attribute options exist for select types (use unopim_create_attribute_options)
+4. Ensure family exists (use unopim_create_family if not)
+5. Ensure categories exist (use unopim_create_category if not)
+6. ONLY THEN create the product
+
+❌ THIS WILL FAIL IF:
+- Family does not exist
+- Required attributes missing from family
+- Category codes don't exist
+- Using option values that don't exist (case-sensitive!)
+
+WORKING EXAMPLE:
+{
+  "sku": "product-001",
+  "family": "default",
+  "values": {
+    "common": { "sku": "product-001" },
+    "channel_locale_specific": {
+      "default": {
+        "en_US": {
+          "name": "Product Name",
+          "price": { "EUR": "99.99" },
+          "description": "<p>Description</p>"
+        }
+      }
+    },
+    "categories": ["category_code"],
+    "associations": {
+      "up_sells": [],
+      "cross_sells": [],
+      "related_products": []
+    }
+  }
+}
+
+CRITICAL NOTES:
+- "name" attribute requires channel_locale_specific format (NOT common!) because it has value_per_locale=1 AND value_per_channel=1
+- categories goes at top level of values, NOT inside common!
+- To create a variant of a configurable product, use unopim_add_variant instead`,
+    inputSchema: CreateProductInputSchema,
+    handler: createProduct,
+  }),
+  defineTool({
+    name: 'unopim_create_configurable_product',
+    description: `Create a configurable product (parent product with variants like T-shirt with colors).
+
+🔴 CRITICAL: CREATE PARENT FIRST, THEN VARIANTS!
+This creates the PARENT product only. Variants must be added AFTER with unopim_add_variant.
+
+⚠️ MANDATORY PRE-REQUISITES (in order):
+1. Call unopim_get_schema() FIRST to check what exists
+2. Ensure super_attributes exist as SELECT type with is_configurable=true
+3. Ensure super_attributes have OPTIONS defined (use unopim_get_attribute_options)
+4. Ensure ALL other required attributes exist
+5. Ensure family exists with all attributes
+6. ONLY THEN create the configurable product (parent)
+7. AFTER parent exists, add variants with unopim_add_variant
+
+❌ COMMON MISTAKES (WILL FAIL):
+- Creating variants before parent product
+- Using non-select type as super_attribute
+- Super_attribute missing is_configurable=true flag
+- Options don't exist for super_attributes
+
+✅ CORRECT ORDER:
+1. unopim_create_configurable_product() ← Creates PARENT only
+2. unopim_add_variant() ← Add variant 1
+3. unopim_add_variant() ← Add variant 2
+4. ... repeat for each variant
+
+WORKING EXAMPLE:
+{
+  "sku": "tshirt-config-001",
+  "family": "default",
+  "super_attributes": ["color"],
+  "values": {
+    "common": { "sku": "tshirt-config-001" },
+    "channel_locale_specific": {
+      "default": {
+        "en_US": { "name": "T-Shirt Configurable" }
+      }
+    },
+    "categories": [],
+    "associations": { "up_sells": [], "cross_sells": [], "related_products": [] }
   }
 }
+
+CRITICAL NOTES:
+- "name" MUST be in channel_locale_specific (NOT common!)
+- super_attributes must be select-type attributes (e.g., color, size)
+- The "variants" array is IGNORED by API - use unopim_add_variant instead
+- Use unopim_get_attribute_options to find valid option codes`,
+    inputSchema: CreateConfigurableProductInputSchema,
+    handler: createConfigurableProduct,
+  }),
+  defineTool({
+    name: 'unopim_add_variant',
+    description: `Add a variant (child product) to an existing configurable product.
+
+🔴 CRITICAL: PARENT MUST EXIST FIRST!
+The parent configurable product MUST be created with unopim_create_configurable_product BEFORE calling this.
+
+🔴 CRITICAL: OPTION VALUES MUST BE LOWERCASE!
+Option codes are always lowercase with underscores only (e.g., "red", "navy_blue", "size_xl")
+
+❌ THIS WILL FAIL IF:
+- Parent product does not exist
+- Parent is not a configurable product
+- variant_attributes don't match parent's super_attributes
+- Option values not lowercase (e.g., "Red" instead of "red")
+
+✅ CORRECT ORDER:
+1. FIRST: unopim_create_configurable_product() ← Parent
+2. THEN: unopim_add_variant() ← This tool, for each variant
+
+WORKING EXAMPLE:
+{
+  "parent": "tshirt-config-001",
+  "family": "default",
+  "sku": "tshirt-red-001",
+  "values": {
+    "common": { "sku": "tshirt-red-001", "color": "red" },
+    "channel_locale_specific": {
+      "default": {
+        "en_US": { "name": "T-Shirt Red" }
+      }
+    },
+    "categories": []
+  },
+  "variant_attributes": { "color": "red" }
+}
+
+CRITICAL NOTES:
+- parent must be an existing configurable product SKU (create it first!)
+- variant_attributes MUST match the super_attributes of the parent
+- Option values MUST be lowercase (e.g., "red" not "Red")
+- Also set the super_attribute value in values.common (e.g., "color": "red")
+- "name" MUST be in channel_locale_specific (NOT common!)
+- Use unopim_get_attribute_options to verify correct option codes
+- family must be same as parent's family`,
+    inputSchema: AddVariantInputSchema,
+    handler: addVariant,
+  }),
+  defineTool({
+    name: 'unopim_update_configurable_product',
+    description: `Update an existing configurable product's values.
+
+WORKING EXAMPLE:
+{
+  "sku": "tshirt-config-001",
+  "values": {
+    "common": { "sku": "tshirt-config-001" },
+    "channel_locale_specific": {
+      "default": {
+        "en_US": { "name": "T-Shirt Configurable Updated" }
+      }
+    },
+    "categories": ["clothing"],
+    "associations": { "up_sells": [], "cross_sells": [], "related_products": [] }
+  },
+  "super_attributes": ["color"]
+}
+
+NOTES:
+- Uses PUT to /api/v1/rest/configrable-products/{sku} (note: typo in API endpoint)
+- "name" MUST be in channel_locale_specific (NOT common!)
+- To add new variants, use unopim_add_variant`,
+    inputSchema: UpdateConfigurableProductInputSchema,
+    handler: updateConfigurableProduct,
+  }),
+  defineTool({
+    name: 'unopim_bulk_create_products',
+    description: `Batch create multiple products.
+
+Products are posted in parallel (concurrency, default 4); results are returned in input order.
+With validate_only=true nothing is created; each product is checked against the live schema
+(family exists, required attributes, scope placement, option codes, category codes) and
+per-SKU errors/warnings are returned.
+With on_error="stop", no new products start after the first failure and the rest are counted in skipped_count.`,
+    inputSchema: BulkCreateProductsInputSchema,
+    handler: bulkCreateProducts,
+  }),
+  defineTool({
+    name: 'unopim_get_products',
+    description: `List products with optional filtering by SKU, family, or type.
+
+Structured filters (evaluated client-side while paging, so they can scan the whole catalog):
+- filters.conditions: [{ attribute, operator, value?, locale?, channel? }]
+  operators: "=", "!=", "IN" (value is an array), "CONTAINS" (case-insensitive), "EMPTY", "NOT EMPTY"
+- filters.categories: { any_of, all_of, none_of } category codes
+- filters.parent: parent SKU, or null for products without a parent
+- filters.created_at / filters.updated_at: { from, to } ISO dates (inclusive)
+- locale / channel: only match and return values in that locale/channel
+- attributes: only return these attribute values (sku always included)
+
+With filters, page/limit count matching products and the response includes filtering.scanned/matched;
+filtering.complete=false (and pagination.truncated=true) means scanning stopped early and more matches exist;
+total_items then counts only the matches up to this page.
+
+Example:
+{
+  "filter_family": "tshirts",
+  "filters": {
+    "conditions": [
+      { "attribute": "color", "operator": "IN", "value": ["black", "white"] },
+      { "attribute": "description", "operator": "EMPTY", "locale": "da_DK" }
+    ],
+    "updated_at": { "from": "2024-01-01" }
+  },
+  "attributes": ["name", "color"]
+}
+
+Set all=true to fetch every page (capped at ${MAX_PAGINATED_ITEMS} items; pagination.truncated reports when the cap was hit).`,
+    inputSchema: GetProductsInputSchema,
+    handler: getProducts,
+  }),
+  defineTool({
+    name: 'unopim_get_product',
+    description: 'Get a single product by SKU. Returns found=false if product does not exist.',
+    inputSchema: GetProductInputSchema,
+    handler: getProduct,
+  }),
+  defineTool({
+    name: 'unopim_update_product',
+    description: 'Update an existing product by SKU',
+    inputSchema: UpdateProductInputSchema,
+    handler: updateProduct,
+  }),
+  defineTool({
+    name: 'unopim_upsert_product',
+    description: `Create or update a product. If SKU exists, updates it; otherwise creates new product.
+
+IMPORTANT - values structure (same as create_product):
+{
+  "common": { "sku": "ABC123", "name": "Product Name" },
+  "categories": ["category_code1"],
+  "locale_specific": { "en_US": { "description": "Desc" } },
+  "channel_specific": { "default": { "attr": "value" } }
+}
+
+NOTE: categories at top level of values, NOT inside common!`,
+    inputSchema: UpsertProductInputSchema,
+    handler: upsertProduct,
+  }),
+  defineTool({
+    name: 'unopim_delete_product',
+    description: `Permanently delete a product by SKU. WARNING: This action is IRREVERSIBLE. The product and all its data will be permanently removed from UnoPim. Use with extreme caution. Always confirm with the user before deleting. For configurable products, delete variant products first, then the parent.`,
+    inputSchema: DeleteProductInputSchema,
+    handler: deleteProduct,
+  }),
+  defineTool({
+    name: 'unopim_get_family_schema',
+    description: `Get detailed schema for a product family. Returns:
+- All attributes in the family with their types and scopes
+- Which attributes are REQUIRED vs optional
+- Correct structure for values object
+- Example values template
+
+ALWAYS call this BEFORE creating products to understand:
+1. What attributes are required
+2. Where each attribute should go (common, locale_specific, channel_locale_specific)
+
+This is essential because required fields and scopes are configurable per installation!`,
+    inputSchema: GetFamilySchemaInputSchema,
+    handler: getFamilySchema,
+  }),
+  defineTool({
+    name: 'unopim_smart_create_product',
+    description: `RECOMMENDED: Intelligently creates a product with automatic value structuring.
+
+Unlike basic create_product, this tool:
+1. Fetches family schema to understand required fields
+2. Auto-places values in correct scope (common/locale/channel)
+3. Validates BEFORE submission
+4. Returns detailed error info
+
+USAGE: Provide flat values object - tool auto-structures it:
+{
+  "sku": "PROD001",
+  "family": "default",
+  "locale": "en_US",
+  "channel": "default",
+  "values": {
+    "sku": "PROD001",
+    "url_key": "prod001",
+    "name": "My Product",
+    "description": "<p>Description</p>",
+    "price": {"EUR": "99.99"}
+  },
+  "validate_only": false
+}
+
+The tool knows where to put each attribute based on family config!`,
+    inputSchema: SmartCreateProductInputSchema,
+    handler: smartCreateProduct,
+  }),
+  defineTool({
+    name: 'unopim_upload_product_media',
+    description: `Upload an image or file to a product attribute AND automatically link it to the product.
+
+This is a COMPLETE workflow that:
+1. Uploads the file to UnoPim storage
+2. Fetches attribute metadata to determine correct scope (common/locale_specific/channel_specific/channel_locale_specific)
+3. Updates the product to reference the uploaded file in the correct value structure
+4. Returns success with the filePath
+
+After calling this tool, the image will be IMMEDIATELY VISIBLE on the product in UnoPim UI.
+
+EXAMPLE - Upload from URL:
+{
+  "sku": "PROD001",
+  "attribute": "image",
+  "file_url": "https://example.com/image.jpg"
+}
+
+EXAMPLE - Upload from base64:
+{
+  "sku": "PROD001",
+  "attribute": "image",
+  "file_base64": "iVBORw0KGgo...",
+  "filename": "product-image.jpg"
+}
+
+NOTES:
+- The product must exist before uploading media
+- The attribute must be an image/file type attribute in the product's family
+- Provide EITHER file_url OR file_base64, not both
+- The tool automatically determines the correct value scope based on attribute settings
+- No need to manually update product values after upload - it's done automatically`,
+    inputSchema: UploadProductMediaInputSchema,
+    handler: uploadProductMedia,
+  }),
+  defineTool({
+    name: 'unopim_upload_category_media',
+    description: `Upload an image or file to a category field.
+
+EXAMPLE:
+{
+  "code": "electronics",
+  "category_field": "image",
+  "file_url": "https://example.com/category-image.jpg"
+}
+
+NOTES:
+- The category must exist before uploading media
+- category_field must be a file/image type field`,
+    inputSchema: UploadCategoryMediaInputSchema,
+    handler: uploadCategoryMedia,
+  }),
+];
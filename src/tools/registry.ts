@@ -0,0 +1,40 @@
+/**
+ * Tool registry primitives for UnoPim MCP Server
+ * Each tool declares its name, description, zod input schema and handler once
+ */
+
+import { z } from 'zod';
+import type { UnoPimClient } from '../client/unopim-client.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ToolDefinition<TSchema extends z.ZodType = z.ZodType> {
+  name: string;
+  description: string;
+  inputSchema: TSchema;
+  // Method syntax keeps handlers assignable to the widened ToolDefinition type
+  handler(client: UnoPimClient, input: z.output<TSchema>): Promise<unknown>;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Declares a tool with a typed handler
+ * The handler receives the already-parsed input of its schema
+ */
+export function defineTool<TSchema extends z.ZodType>(tool: ToolDefinition<TSchema>): ToolDefinition {
+  return tool as unknown as ToolDefinition;
+}
+
+/**
+ * Converts a tool's zod input schema to the JSON Schema advertised via tools/list
+ * Uses the input side so fields with defaults are shown as optional
+ */
+export function toJsonInputSchema(schema: z.ZodType): { type: 'object'; [key: string]: unknown } {
+  const { $schema: _ignored, ...jsonSchema } = z.toJSONSchema(schema, { io: 'input' }) as Record<string, unknown>;
+  return { ...jsonSchema, type: 'object' };
+}
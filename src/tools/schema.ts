@@ -4,36 +4,47 @@
  */
 
 import { z } from 'zod';
-import type { UnoPimClient } from '../client/unopim-client.js';
-import type { Schema, Attribute, Family, Category, Channel, Locale, Currency, ListResponse, AttributeGroup } from '../types/unopim.js';
+import { MAX_PAGINATED_ITEMS, type UnoPimClient } from '../client/unopim-client.js';
+import { defineTool } from './registry.js';
+import type { Schema, Attribute, Family, Category, Currency, ListResponse, AttributeGroup } from '../types/unopim.js';
 
 // ============================================================================
 // Input Schemas
 // ============================================================================
 
 export const GetSchemaInputSchema = z.object({
-  include_attributes: z.boolean().optional().default(true),
-  include_families: z.boolean().optional().default(true),
-  include_categories: z.boolean().optional().default(true),
-  include_channels: z.boolean().optional().default(false),
-  include_locales: z.boolean().optional().default(false),
+  include_attributes: z.boolean().optional().default(true).describe('Include attributes in response'),
+  include_families: z.boolean().optional().default(true).describe('Include families in response'),
+  include_categories: z.boolean().optional().default(true).describe('Include categories in response'),
+  include_channels: z.boolean().optional().default(false).describe('Include channels in response'),
+  include_locales: z.boolean().optional().default(false).describe('Include locales in response'),
 });
 
 export const GetAttributesInputSchema = z.object({
-  filter_by_type: z.string().optional(),
-  filter_by_group: z.string().optional(),
-  limit: z.number().optional().default(100),
-  page: z.number().optional().default(1),
+  filter_by_type: z.string().optional().describe('Filter by attribute type (e.g., select, text, boolean)'),
+  filter_by_group: z.string().optional().describe('Filter by attribute group code'),
+  limit: z.number().optional().default(100).describe('Number of results per page'),
+  page: z.number().optional().default(1).describe('Page number'),
+  all: z.boolean().optional().default(false).describe('Fetch every page (up to the hard item cap) instead of a single page'),
 });
 
 export const GetFamiliesInputSchema = z.object({
-  limit: z.number().optional().default(100),
-  page: z.number().optional().default(1),
+  limit: z.number().optional().default(100).describe('Number of results per page'),
+  page: z.number().optional().default(1).describe('Page number'),
+  all: z.boolean().optional().default(false).describe('Fetch every page (up to the hard item cap) instead of a single page'),
+});
+
+export const RefreshSchemaCacheInputSchema = z.object({
+  kind: z.enum(['attribute', 'family', 'options', 'channels', 'locales']).optional()
+    .describe('Only drop cached entries of this kind (default: everything)'),
+  codes: z.array(z.string()).optional()
+    .describe('Only drop entries for these attribute/family codes (requires kind)'),
 });
 
 export type GetSchemaInput = z.infer<typeof GetSchemaInputSchema>;
 export type GetAttributesInput = z.infer<typeof GetAttributesInputSchema>;
 export type GetFamiliesInput = z.infer<typeof GetFamiliesInputSchema>;
+export type RefreshSchemaCacheInput = z.infer<typeof RefreshSchemaCacheInputSchema>;
 
 // ============================================================================
 // Tool Implementations
@@ -54,46 +65,54 @@ export async function getSchema(
     categories: [],
   };
 
+  // Fetches every page of a collection, remembering which ones hit the item cap
+  const truncated: string[] = [];
+  const fetchAll = async <T>(name: string, endpoint: string): Promise<T[]> => {
+    const result = await client.getAll<T>(endpoint);
+    if (result.truncated) {
+      truncated.push(name);
+    }
+    return result.items;
+  };
+
   try {
     // Fetch attributes
     if (input.include_attributes) {
-      const attributesResponse = await client.get<ListResponse<Attribute>>('/api/v1/rest/attributes');
-      schema.attributes = attributesResponse.data || [];
+      schema.attributes = await fetchAll<Attribute>('attributes', '/api/v1/rest/attributes');
     }
 
     // Fetch attribute groups
     if (input.include_attributes) {
-      const groupsResponse = await client.get<ListResponse<AttributeGroup>>('/api/v1/rest/attribute-groups');
-      schema.attribute_groups = groupsResponse.data || [];
+      schema.attribute_groups = await fetchAll<AttributeGroup>('attribute_groups', '/api/v1/rest/attribute-groups');
     }
 
     // Fetch families
     if (input.include_families) {
-      const familiesResponse = await client.get<ListResponse<Family>>('/api/v1/rest/families');
-      schema.families = familiesResponse.data || [];
+      schema.families = await fetchAll<Family>('families', '/api/v1/rest/families');
     }
 
     // Fetch categories
     if (input.include_categories) {
-      const categoriesResponse = await client.get<ListResponse<Category>>('/api/v1/rest/categories');
-      schema.categories = categoriesResponse.data || [];
+      schema.categories = await fetchAll<Category>('categories', '/api/v1/rest/categories');
     }
 
-    // Fetch channels
+    // Fetch channels (cached - they rarely change)
     if (input.include_channels) {
-      const channelsResponse = await client.get<ListResponse<Channel>>('/api/v1/rest/channels');
-      schema.channels = channelsResponse.data || [];
+      schema.channels = await client.schemaCache.getChannels();
     }
 
-    // Fetch locales
+    // Fetch locales (cached - they rarely change)
     if (input.include_locales) {
-      const localesResponse = await client.get<ListResponse<Locale>>('/api/v1/rest/locales');
-      schema.locales = localesResponse.data || [];
+      schema.locales = await client.schemaCache.getLocales();
+    }
+
+    if (truncated.length > 0) {
+      schema.truncated = truncated;
     }
 
     return schema;
   } catch (error) {
-    throw new Error(`Failed to fetch schema: ${error}`);
+    throw new Error(`Failed to fetch schema: ${error}`, { cause: error });
   }
 }
 
@@ -110,6 +129,7 @@ export async function getAttributes(
     current_page: number;
     total_pages: number;
     total_items: number;
+    truncated?: boolean;
   };
 }> {
   try {
@@ -127,6 +147,18 @@ export async function getAttributes(
       params.group = input.filter_by_group;
     }
 
+    if (input.all) {
+      const { page: _page, limit, ...filters } = params;
+      const { items, truncated } = await client.getAll<Attribute>('/api/v1/rest/attributes', {
+        params: filters,
+        pageSize: Number(limit),
+      });
+      return {
+        attributes: items,
+        pagination: { current_page: 1, total_pages: 1, total_items: items.length, truncated },
+      };
+    }
+
     const url = client.buildUrl('/api/v1/rest/attributes', params);
     const response = await client.get<ListResponse<Attribute>>(url);
 
@@ -139,7 +171,7 @@ export async function getAttributes(
       },
     };
   } catch (error) {
-    throw new Error(`Failed to fetch attributes: ${error}`);
+    throw new Error(`Failed to fetch attributes: ${error}`, { cause: error });
   }
 }
 
@@ -156,9 +188,20 @@ export async function getFamilies(
     current_page: number;
     total_pages: number;
     total_items: number;
+    truncated?: boolean;
   };
 }> {
   try {
+    if (input.all) {
+      const { items, truncated } = await client.getAll<Family>('/api/v1/rest/families', {
+        pageSize: input.limit,
+      });
+      return {
+        families: items,
+        pagination: { current_page: 1, total_pages: 1, total_items: items.length, truncated },
+      };
+    }
+
     const url = client.buildUrl('/api/v1/rest/families', {
       page: input.page,
       limit: input.limit,
@@ -175,6 +218,81 @@ export async function getFamilies(
       },
     };
   } catch (error) {
-    throw new Error(`Failed to fetch families: ${error}`);
+    throw new Error(`Failed to fetch families: ${error}`, { cause: error });
+  }
+}
+
+/**
+ * unopim_refresh_schema_cache
+ * Drops cached schema metadata so the next lookup hits the API
+ */
+export async function refreshSchemaCache(
+  client: UnoPimClient,
+  input: RefreshSchemaCacheInput
+): Promise<{
+  success: boolean;
+  invalidated: number;
+  cache: ReturnType<UnoPimClient['schemaCache']['stats']>;
+}> {
+  if (input.codes && !input.kind) {
+    throw new Error('codes requires kind to be set');
+  }
+
+  let invalidated = 0;
+  if (input.codes) {
+    for (const code of input.codes) {
+      invalidated += client.schemaCache.invalidate(input.kind, code);
+    }
+  } else {
+    invalidated = client.schemaCache.invalidate(input.kind);
   }
+
+  return {
+    success: true,
+    invalidated,
+    cache: client.schemaCache.stats(),
+  };
 }
+
+// ============================================================================
+// Tool Definitions
+// ============================================================================
+
+export const schemaTools = [
+  defineTool({
+    name: 'unopim_get_schema',
+    description: 'Fetch complete datamodel overview from UnoPim including attributes, families, categories, channels, and locales',
+    inputSchema: GetSchemaInputSchema,
+    handler: getSchema,
+  }),
+  defineTool({
+    name: 'unopim_get_attributes',
+    description: `List all attributes with optional filtering by type or group.
+
+Set all=true to fetch every page (capped at ${MAX_PAGINATED_ITEMS} items; pagination.truncated reports when the cap was hit).`,
+    inputSchema: GetAttributesInputSchema,
+    handler: getAttributes,
+  }),
+  defineTool({
+    name: 'unopim_get_families',
+    description: `List all product families.
+
+Set all=true to fetch every page (capped at ${MAX_PAGINATED_ITEMS} items; pagination.truncated reports when the cap was hit).`,
+    inputSchema: GetFamiliesInputSchema,
+    handler: getFamilies,
+  }),
+  defineTool({
+    name: 'unopim_refresh_schema_cache',
+    description: `Drop cached schema metadata (attributes, families, attribute options, channels, locales).
+
+Schema lookups used by smart create, validation and media upload are cached for a few minutes.
+Tools in this server invalidate the cache automatically when they change the schema; call this
+after changing the datamodel directly in the UnoPim UI or from another integration.
+
+Examples:
+- {} - clear everything
+- { "kind": "options", "codes": ["color"] } - refetch options of one attribute`,
+    inputSchema: RefreshSchemaCacheInputSchema,
+    handler: refreshSchemaCache,
+  }),
+];
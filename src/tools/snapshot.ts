@@ -0,0 +1,415 @@
+/**
+ * Schema snapshot tools for UnoPim
+ * Writes normalized schema snapshots and compares them across runs and instances
+ */
+
+import { z } from 'zod';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { UnoPimClient } from '../client/unopim-client.js';
+import { defineTool } from './registry.js';
+import { getSchema } from './schema.js';
+import { runWithConcurrency } from '../utils/concurrency.js';
+import { defaultFilePath, resolveFilePath } from '../utils/files.js';
+import type { Attribute, AttributeGroup, Category, Channel, Family, Locale } from '../types/unopim.js';
+
+// ============================================================================
+// Input Schemas
+// ============================================================================
+
+const SNAPSHOT_SECTIONS = ['attribute_groups', 'attributes', 'families', 'categories', 'channels', 'locales'] as const;
+
+export const ExportSchemaSnapshotInputSchema = z.object({
+  output_path: z.string().optional()
+    .describe('File to write, relative to the server files directory (default: a timestamped file there)'),
+});
+
+export const DiffSchemaSnapshotsInputSchema = z.object({
+  left: z.string().describe('Baseline snapshot file, relative to the server files directory'),
+  right: z.string().optional().describe('Snapshot file to compare against, relative to the server files directory (default: the live instance)'),
+  sections: z.array(z.enum(SNAPSHOT_SECTIONS)).optional()
+    .describe('Only compare these sections (default: all)'),
+});
+
+export type ExportSchemaSnapshotInput = z.infer<typeof ExportSchemaSnapshotInputSchema>;
+export type DiffSchemaSnapshotsInput = z.infer<typeof DiffSchemaSnapshotsInputSchema>;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SnapshotSection = typeof SNAPSHOT_SECTIONS[number];
+
+export interface SchemaSnapshot {
+  snapshot_version: 1;
+  attribute_groups: AttributeGroup[];
+  attributes: Attribute[]; // select/multiselect attributes include their options
+  families: Family[];
+  categories: Category[];
+  channels: Channel[];
+  locales: Locale[];
+  truncated?: string[]; // Collections that hit the pagination item cap
+}
+
+export interface FieldChange {
+  path: string; // e.g. "value_per_locale", "labels.da_DK", "options.red.sort_order"
+  left?: unknown;
+  right?: unknown;
+}
+
+export interface SectionDiff {
+  missing: string[]; // In left, not in right
+  extra: string[]; // In right, not in left
+  changed: Array<{ code: string; fields: FieldChange[] }>;
+}
+
+// Change per run without the datamodel changing (row ids, timestamps, nested-set bounds)
+// Listed explicitly: other *_id keys such as root_category_id carry configuration
+const VOLATILE_KEYS = new Set([
+  'id',
+  'uuid',
+  'attribute_id',
+  'attribute_family_id',
+  'attribute_group_id',
+  'attribute_option_id',
+  'category_id',
+  'channel_id',
+  'locale_id',
+  'parent_id',
+  'product_id',
+  'created_at',
+  'updated_at',
+  'deleted_at',
+  '_lft',
+  '_rgt',
+]);
+
+const ATTRIBUTE_FLAGS = ['is_required', 'is_unique', 'is_configurable', 'value_per_locale', 'value_per_channel', 'enable_wysiwyg'];
+
+// Attribute fields that cannot change once values exist
+const SCOPE_FIELDS = ['type', 'value_per_locale', 'value_per_channel'];
+
+// ============================================================================
+// Tool Implementations
+// ============================================================================
+
+/**
+ * unopim_export_schema_snapshot
+ * Writes the full schema, including options, as normalized and sorted JSON
+ */
+export async function exportSchemaSnapshot(
+  client: UnoPimClient,
+  input: ExportSchemaSnapshotInput
+): Promise<{
+  success: boolean;
+  path: string;
+  counts: Record<SnapshotSection, number>;
+  truncated?: string[];
+}> {
+  try {
+    const path = input.output_path
+      ? await resolveFilePath(input.output_path)
+      : defaultFilePath('unopim-schema', 'json');
+    const snapshot = await buildSnapshot(client);
+
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, JSON.stringify(snapshot, null, 2) + '\n', 'utf8');
+
+    return {
+      success: true,
+      path,
+      counts: Object.fromEntries(SNAPSHOT_SECTIONS.map(section => [section, snapshot[section].length])) as Record<SnapshotSection, number>,
+      ...(snapshot.truncated && { truncated: snapshot.truncated }),
+    };
+  } catch (error) {
+    throw new Error(`Failed to export schema snapshot: ${error}`, { cause: error });
+  }
+}
+
+/**
+ * unopim_diff_schema_snapshots
+ * Compares two snapshots, or a snapshot with the live instance
+ */
+export async function diffSchemaSnapshots(
+  client: UnoPimClient,
+  input: DiffSchemaSnapshotsInput
+): Promise<{
+  identical: boolean;
+  left: string;
+  right: string;
+  summary: Partial<Record<SnapshotSection, { missing: number; extra: number; changed: number }>>;
+  differences: Partial<Record<SnapshotSection, SectionDiff>>;
+  scope_changes: string[];
+  warnings?: string[];
+}> {
+  try {
+    const leftPath = await resolveFilePath(input.left);
+    const rightPath = input.right ? await resolveFilePath(input.right) : undefined;
+    const left = await loadSnapshot(leftPath);
+    const right = rightPath ? await loadSnapshot(rightPath) : await buildSnapshot(client);
+
+    const warnings = [
+      ...(left.truncated ? [`left is incomplete: ${left.truncated.join(', ')} hit the pagination cap`] : []),
+      ...(right.truncated ? [`right is incomplete: ${right.truncated.join(', ')} hit the pagination cap`] : []),
+    ];
+
+    const summary: Partial<Record<SnapshotSection, { missing: number; extra: number; changed: number }>> = {};
+    const differences: Partial<Record<SnapshotSection, SectionDiff>> = {};
+    const scopeChanges: string[] = [];
+
+    for (const section of input.sections ?? SNAPSHOT_SECTIONS) {
+      const diff = diffSection(left[section], right[section]);
+      if (diff.missing.length === 0 && diff.extra.length === 0 && diff.changed.length === 0) {
+        continue;
+      }
+
+      differences[section] = diff;
+      summary[section] = { missing: diff.missing.length, extra: diff.extra.length, changed: diff.changed.length };
+
+      if (section === 'attributes') {
+        for (const { code, fields } of diff.changed) {
+          for (const field of fields.filter(f => SCOPE_FIELDS.includes(f.path))) {
+            scopeChanges.push(`attribute '${code}': ${field.path} ${String(field.left)} → ${String(field.right)}`);
+          }
+        }
+      }
+    }
+
+    return {
+      identical: Object.keys(differences).length === 0,
+      left: leftPath,
+      right: rightPath ?? 'live instance',
+      summary,
+      differences,
+      scope_changes: scopeChanges,
+      ...(warnings.length > 0 && { warnings }),
+    };
+  } catch (error) {
+    throw new Error(`Failed to diff schema snapshots: ${error}`, { cause: error });
+  }
+}
+
+// ============================================================================
+// Snapshot Building
+// ============================================================================
+
+async function buildSnapshot(client: UnoPimClient): Promise<SchemaSnapshot> {
+  // Snapshots must reflect the instance right now, not the cache
+  client.schemaCache.invalidate();
+
+  const schema = await getSchema(client, {
+    include_attributes: true,
+    include_families: true,
+    include_categories: true,
+    include_channels: true,
+    include_locales: true,
+  });
+
+  const withOptions = await runWithConcurrency(schema.attributes, async (attribute) => {
+    if (attribute.type !== 'select' && attribute.type !== 'multiselect') {
+      return attribute;
+    }
+    return { ...attribute, options: await client.schemaCache.getAttributeOptions(attribute.code) };
+  }, { concurrency: 4, stopOnError: true });
+
+  const attributes = withOptions.map((result, index) => {
+    if (result.status === 'rejected') {
+      throw new Error(`Could not load options of '${schema.attributes[index].code}': ${result.reason}`);
+    }
+    return result.status === 'fulfilled' ? result.value : schema.attributes[index];
+  });
+
+  return normalizeSnapshot({
+    snapshot_version: 1,
+    attribute_groups: schema.attribute_groups,
+    attributes,
+    families: schema.families,
+    categories: schema.categories,
+    channels: schema.channels || [],
+    locales: schema.locales || [],
+    ...(schema.truncated && { truncated: schema.truncated }),
+  });
+}
+
+async function loadSnapshot(path: string): Promise<SchemaSnapshot> {
+  const parsed = JSON.parse(await readFile(path, 'utf8')) as Partial<SchemaSnapshot>;
+  if (parsed?.snapshot_version !== 1) {
+    throw new Error(`${path} is not a schema snapshot (expected snapshot_version 1)`);
+  }
+  // Normalize again so older or hand-edited snapshots compare cleanly
+  return normalizeSnapshot({
+    snapshot_version: 1,
+    ...Object.fromEntries(SNAPSHOT_SECTIONS.map(section => [section, parsed[section] || []])),
+    ...(parsed.truncated && { truncated: parsed.truncated }),
+  } as SchemaSnapshot);
+}
+
+/**
+ * Makes a snapshot deterministic: volatile fields are dropped, entities are sorted by code,
+ * family layouts and options by position, object keys alphabetically, and flags are booleans
+ */
+export function normalizeSnapshot(snapshot: SchemaSnapshot): SchemaSnapshot {
+  const attributes = snapshot.attributes.map(attribute => {
+    const normalized: Record<string, unknown> = { ...attribute };
+    for (const flag of ATTRIBUTE_FLAGS) {
+      if (flag in normalized) {
+        normalized[flag] = toBoolean(normalized[flag]);
+      }
+    }
+    if (attribute.options) {
+      normalized.options = [...attribute.options].sort((a, b) =>
+        (Number(a.sort_order ?? 0) - Number(b.sort_order ?? 0)) || a.code.localeCompare(b.code)
+      );
+    }
+    return normalized as unknown as Attribute;
+  });
+
+  const families = snapshot.families.map(family => ({
+    ...family,
+    attribute_groups: sortByPosition(family.attribute_groups || []).map(group => ({
+      ...group,
+      custom_attributes: sortByPosition(group.custom_attributes || []),
+    })),
+  }));
+
+  // children duplicates the parent links and depends on how the list was fetched
+  const categories = snapshot.categories.map(({ children: _children, ...category }) => category);
+
+  return stripVolatile({
+    snapshot_version: 1,
+    attribute_groups: sortByCode(snapshot.attribute_groups),
+    attributes: sortByCode(attributes),
+    families: sortByCode(families),
+    categories: sortByCode(categories),
+    channels: sortByCode(snapshot.channels),
+    locales: sortByCode(snapshot.locales),
+    ...(snapshot.truncated && { truncated: [...snapshot.truncated].sort() }),
+  }) as SchemaSnapshot;
+}
+
+function stripVolatile(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(stripVolatile);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .filter(key => !VOLATILE_KEYS.has(key) && (value as Record<string, unknown>)[key] !== undefined)
+        .sort()
+        .map(key => [key, stripVolatile((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+function sortByCode<T extends { code: string }>(items: T[]): T[] {
+  return [...items].sort((a, b) => a.code.localeCompare(b.code));
+}
+
+function sortByPosition<T extends { code: string; position: number }>(items: T[]): T[] {
+  return [...items].sort((a, b) => (Number(a.position) - Number(b.position)) || a.code.localeCompare(b.code));
+}
+
+function toBoolean(value: unknown): boolean {
+  return value === true || value === 1 || value === '1' || value === 'true';
+}
+
+// ============================================================================
+// Diffing
+// ============================================================================
+
+function diffSection(left: Array<{ code: string }>, right: Array<{ code: string }>): SectionDiff {
+  const rightByCode = new Map(right.map(item => [item.code, item]));
+  const leftCodes = new Set(left.map(item => item.code));
+  const diff: SectionDiff = {
+    missing: [],
+    extra: right.filter(item => !leftCodes.has(item.code)).map(item => item.code),
+    changed: [],
+  };
+
+  for (const item of left) {
+    const other = rightByCode.get(item.code);
+    if (!other) {
+      diff.missing.push(item.code);
+      continue;
+    }
+    const fields: FieldChange[] = [];
+    diffValues('', item, other, fields);
+    if (fields.length > 0) {
+      diff.changed.push({ code: item.code, fields });
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Collects differences by dotted path
+ * Lists of coded entries (options, family groups, assigned attributes) are matched by code,
+ * so an inserted item shows up once instead of shifting every later index
+ */
+export function diffValues(path: string, left: unknown, right: unknown, out: FieldChange[]): void {
+  if (JSON.stringify(left) === JSON.stringify(right)) {
+    return;
+  }
+
+  const join = (key: string): string => path ? `${path}.${key}` : key;
+
+  if (isCodedList(left) && isCodedList(right)) {
+    const leftByCode = new Map(left.map(item => [item.code, item]));
+    const rightByCode = new Map(right.map(item => [item.code, item]));
+    for (const code of new Set([...leftByCode.keys(), ...rightByCode.keys()])) {
+      diffValues(join(code), leftByCode.get(code), rightByCode.get(code), out);
+    }
+    return;
+  }
+
+  if (isPlainObject(left) && isPlainObject(right)) {
+    for (const key of new Set([...Object.keys(left), ...Object.keys(right)])) {
+      diffValues(join(key), left[key], right[key], out);
+    }
+    return;
+  }
+
+  out.push({
+    path,
+    ...(left !== undefined && { left }),
+    ...(right !== undefined && { right }),
+  });
+}
+
+function isCodedList(value: unknown): value is Array<{ code: string }> {
+  return Array.isArray(value) && value.every(item => isPlainObject(item) && typeof item.code === 'string');
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// ============================================================================
+// Tool Definitions
+// ============================================================================
+
+export const snapshotTools = [
+  defineTool({
+    name: 'unopim_export_schema_snapshot',
+    description: `Write a normalized JSON snapshot of the full schema: attribute groups, attributes (with options),
+families, categories, channels and locales.
+
+Volatile fields (ids, timestamps) are stripped and everything is sorted, so snapshots of an unchanged
+instance are byte-identical and can be committed to git or compared across tenants.`,
+    inputSchema: ExportSchemaSnapshotInputSchema,
+    handler: exportSchemaSnapshot,
+  }),
+  defineTool({
+    name: 'unopim_diff_schema_snapshots',
+    description: `Compare two schema snapshots, or a snapshot (left) with the live instance (no right).
+
+Per section reports missing (only in left), extra (only in right) and changed entities with
+field paths like "labels.da_DK", "options.red" or "attribute_groups.general.custom_attributes.color".
+scope_changes lists attributes whose type, value_per_locale or value_per_channel differ,
+which cannot be fixed by updating the attribute.`,
+    inputSchema: DiffSchemaSnapshotsInputSchema,
+    handler: diffSchemaSnapshots,
+  }),
+];
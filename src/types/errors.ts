@@ -2,6 +2,8 @@
  * Error types and codes for UnoPim MCP Server
  */
 
+import { parseRetryAfter } from '../utils/retry-after.js';
+
 export type ErrorCode =
   | 'AUTH_FAILED'
   | 'TOKEN_EXPIRED'
@@ -11,34 +13,60 @@ export type ErrorCode =
   | 'DEPENDENCY_MISSING'
   | 'RATE_LIMITED'
   | 'SERVER_ERROR'
-  | 'NETWORK_ERROR';
+  | 'NETWORK_ERROR'
+  | 'TIMEOUT' // No response within the request timeout
+  | 'BAD_REQUEST' // 400 - malformed request
+  | 'PERMISSION_DENIED' // 403 - the API user's role lacks this permission
+  | 'PAYLOAD_TOO_LARGE' // 413 - e.g. an upload over the server's size limit
+  | 'ENDPOINT_UNAVAILABLE' // 405/501, or a 404 for a route this UnoPim version does not have
+  | 'INTERNAL_ERROR'; // Failure inside the MCP server rather than the UnoPim API
+
+// Error body in Laravel's shape; other fields the API sends are kept as they are
+export interface ErrorDetails {
+  message?: string;
+  errors?: Record<string, string[]>;
+  [key: string]: unknown;
+}
+
+// One validation message for one input field
+export interface FieldError {
+  field: string;
+  message: string;
+}
 
 export interface UnoPimError {
   code: ErrorCode;
   message: string;
-  details?: unknown;
+  details?: ErrorDetails;
+  field_errors: FieldError[];
   retry_possible: boolean;
+  status_code?: number;
 }
 
 export class UnoPimApiError extends Error {
   public code: ErrorCode;
-  public details?: unknown;
+  public details?: ErrorDetails;
+  public fieldErrors: FieldError[];
   public retryPossible: boolean;
   public statusCode?: number;
+  public retryAfterMs?: number; // Server-requested wait from Retry-After / X-RateLimit-Reset
 
   constructor(
     code: ErrorCode,
     message: string,
     details?: unknown,
     retryPossible: boolean = false,
-    statusCode?: number
+    statusCode?: number,
+    retryAfterMs?: number
   ) {
     super(message);
     this.name = 'UnoPimApiError';
     this.code = code;
-    this.details = details;
+    this.details = normalizeErrorDetails(details);
+    this.fieldErrors = parseFieldErrors(this.details);
     this.retryPossible = retryPossible;
     this.statusCode = statusCode;
+    this.retryAfterMs = retryAfterMs;
   }
 
   toJSON(): UnoPimError {
@@ -46,7 +74,9 @@ export class UnoPimApiError extends Error {
       code: this.code,
       message: this.message,
       details: this.details,
+      field_errors: this.fieldErrors,
       retry_possible: this.retryPossible,
+      ...(this.statusCode !== undefined && { status_code: this.statusCode }),
     };
   }
 
@@ -54,17 +84,30 @@ export class UnoPimApiError extends Error {
    * Creates an error from an HTTP response
    */
   static async fromResponse(response: Response): Promise<UnoPimApiError> {
-    let details: unknown;
+    // The body can only be read once, so read text and parse it ourselves
+    let body: string | undefined;
     try {
-      details = await response.json();
+      body = await response.text();
     } catch {
-      details = await response.text();
+      body = undefined;
     }
 
+    const details = normalizeErrorDetails(body);
     const statusCode = response.status;
+    const retryAfterMs = parseRetryAfter(response.headers);
+    const withServerMessage = (message: string): string =>
+      details?.message ? `${message}: ${details.message}` : message;
 
     // Map HTTP status codes to error codes
     switch (statusCode) {
+      case 400:
+        return new UnoPimApiError(
+          'BAD_REQUEST',
+          withServerMessage('Bad request'),
+          details,
+          false,
+          statusCode
+        );
       case 401:
         return new UnoPimApiError(
           'AUTH_FAILED',
@@ -73,7 +116,25 @@ export class UnoPimApiError extends Error {
           true,
           statusCode
         );
+      case 403:
+        return new UnoPimApiError(
+          'PERMISSION_DENIED',
+          withServerMessage('Permission denied - check the API user\'s role'),
+          details,
+          false,
+          statusCode
+        );
       case 404:
+        // Laravel answers unknown routes with a 404 too; those mean the endpoint is missing
+        if (details?.message && /route .* could not be found/i.test(details.message)) {
+          return new UnoPimApiError(
+            'ENDPOINT_UNAVAILABLE',
+            withServerMessage('Endpoint not available'),
+            details,
+            false,
+            statusCode
+          );
+        }
         return new UnoPimApiError(
           'NOT_FOUND',
           'Resource not found',
@@ -81,6 +142,24 @@ export class UnoPimApiError extends Error {
           false,
           statusCode
         );
+      case 405:
+      case 501:
+        return new UnoPimApiError(
+          'ENDPOINT_UNAVAILABLE',
+          withServerMessage(`Endpoint not available (${statusCode})`),
+          details,
+          false,
+          statusCode
+        );
+      case 408:
+        return new UnoPimApiError(
+          'TIMEOUT',
+          'Request timed out on the server',
+          details,
+          true,
+          statusCode,
+          retryAfterMs
+        );
       case 409:
         return new UnoPimApiError(
           'DUPLICATE_CODE',
@@ -89,10 +168,18 @@ export class UnoPimApiError extends Error {
           false,
           statusCode
         );
+      case 413:
+        return new UnoPimApiError(
+          'PAYLOAD_TOO_LARGE',
+          'Request too large - reduce the batch or file size',
+          details,
+          false,
+          statusCode
+        );
       case 422:
         return new UnoPimApiError(
           'VALIDATION_ERROR',
-          'Validation failed',
+          withServerMessage('Validation failed'),
           details,
           false,
           statusCode
@@ -103,7 +190,8 @@ export class UnoPimApiError extends Error {
           'Rate limit exceeded',
           details,
           true,
-          statusCode
+          statusCode,
+          retryAfterMs
         );
       case 500:
       case 502:
@@ -114,11 +202,12 @@ export class UnoPimApiError extends Error {
           `Server error: ${statusCode}`,
           details,
           true,
-          statusCode
+          statusCode,
+          retryAfterMs
         );
       default:
         return new UnoPimApiError(
-          'SERVER_ERROR',
+          statusCode >= 500 ? 'SERVER_ERROR' : 'BAD_REQUEST',
           `HTTP error: ${statusCode} ${response.statusText}`,
           details,
           statusCode >= 500,
@@ -139,3 +228,137 @@ export class UnoPimApiError extends Error {
     );
   }
 }
+
+// ============================================================================
+// Type Guards
+// ============================================================================
+
+/**
+ * Whether error is a UnoPimApiError, optionally with one of the given codes
+ */
+export function isUnoPimApiError(error: unknown, ...codes: ErrorCode[]): error is UnoPimApiError {
+  return error instanceof UnoPimApiError && (codes.length === 0 || codes.includes(error.code));
+}
+
+export function isNotFound(error: unknown): error is UnoPimApiError {
+  return isUnoPimApiError(error, 'NOT_FOUND');
+}
+
+export function isValidationError(error: unknown): error is UnoPimApiError {
+  return isUnoPimApiError(error, 'VALIDATION_ERROR', 'BAD_REQUEST');
+}
+
+export function isPermissionDenied(error: unknown): error is UnoPimApiError {
+  return isUnoPimApiError(error, 'PERMISSION_DENIED');
+}
+
+export function isEndpointUnavailable(error: unknown): error is UnoPimApiError {
+  return isUnoPimApiError(error, 'ENDPOINT_UNAVAILABLE');
+}
+
+export function isRetryable(error: unknown): error is UnoPimApiError {
+  return error instanceof UnoPimApiError && error.retryPossible;
+}
+
+// ============================================================================
+// Details
+// ============================================================================
+
+/**
+ * Brings any error payload into Laravel's { message, errors } shape
+ * JSON text is parsed, HTML error pages are reduced to their title, Error objects to their message,
+ * and errors become a field -> messages map
+ */
+export function normalizeErrorDetails(raw: unknown): ErrorDetails | undefined {
+  if (raw === undefined || raw === null || raw === '') {
+    return undefined;
+  }
+
+  if (typeof raw === 'string') {
+    const text = raw.trim();
+    try {
+      return normalizeErrorDetails(JSON.parse(text)) ?? { message: text };
+    } catch {
+      const title = text.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+      const plain = (title ?? text.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+      return plain ? { message: plain.slice(0, 500) } : undefined;
+    }
+  }
+
+  if (raw instanceof Error) {
+    return { message: raw.message };
+  }
+
+  if (Array.isArray(raw)) {
+    return { errors: groupFieldErrors(parseFieldErrors({ errors: raw })) };
+  }
+
+  if (typeof raw !== 'object') {
+    return { message: String(raw) };
+  }
+
+  const { message, errors, ...rest } = raw as Record<string, unknown>;
+  const fieldErrors = parseFieldErrors({ errors });
+  return {
+    ...rest,
+    ...(message !== undefined && message !== null && { message: String(message) }),
+    ...(fieldErrors.length > 0 && { errors: groupFieldErrors(fieldErrors) }),
+  };
+}
+
+function groupFieldErrors(fieldErrors: FieldError[]): Record<string, string[]> {
+  const grouped: Record<string, string[]> = {};
+  for (const { field, message } of fieldErrors) {
+    (grouped[field] ??= []).push(message);
+  }
+  return grouped;
+}
+
+/**
+ * Extracts per-field messages from a UnoPim error body
+ * Handles Laravel's { message, errors: { field: [messages] } }, lists of messages or
+ * { field, message } items, and bodies that arrived as JSON text
+ */
+export function parseFieldErrors(details: unknown): FieldError[] {
+  let body = details;
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      return [];
+    }
+  }
+
+  const errors = body && typeof body === 'object' ? (body as { errors?: unknown }).errors : undefined;
+
+  if (Array.isArray(errors)) {
+    return errors.map(item => {
+      if (item && typeof item === 'object' && 'message' in item) {
+        const { field, message } = item as { field?: unknown; message: unknown };
+        return { field: field !== undefined ? String(field) : 'general', message: String(message) };
+      }
+      return { field: 'general', message: String(item) };
+    });
+  }
+
+  if (errors && typeof errors === 'object') {
+    return Object.entries(errors as Record<string, unknown>).flatMap(([field, messages]) =>
+      (Array.isArray(messages) ? messages : [messages]).map(message => ({ field, message: String(message) }))
+    );
+  }
+
+  return [];
+}
+
+/**
+ * Finds the UnoPimApiError behind a (possibly wrapped) error by following error.cause
+ */
+export function findApiError(error: unknown): UnoPimApiError | undefined {
+  for (let current = error, depth = 0; current && depth < 10; depth++) {
+    if (current instanceof UnoPimApiError) {
+      return current;
+    }
+    current = current instanceof Error ? current.cause : undefined;
+  }
+  return undefined;
+}
@@ -21,3 +21,11 @@ export interface OAuthCredentials {
   username: string;
   password: string;
 }
+
+/**
+ * What UnoPimClient needs from an auth source (OAuthManager, or a stub in replay mode)
+ */
+export interface TokenProvider {
+  getAccessToken(): Promise<string>;
+  clearCache(): void;
+}
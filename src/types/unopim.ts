@@ -90,6 +90,11 @@ export interface Category {
   children?: Category[];
 }
 
+export interface CategoryTreeNode extends Category {
+  depth: number; // 0 for the tree's top nodes
+  children: CategoryTreeNode[];
+}
+
 // ============================================================================
 // Channel & Locale Types
 // ============================================================================
@@ -168,6 +173,7 @@ export interface Schema {
   channels?: Channel[];
   locales?: Locale[];
   currencies?: Currency[];
+  truncated?: string[]; // Collections that hit the pagination item cap
 }
 
 // ============================================================================
@@ -201,9 +207,12 @@ export interface BulkCreateResult {
   success: boolean;
   created_count: number;
   failed_count: number;
+  skipped_count?: number; // Products not attempted after a failure with on_error='stop'
   results: Array<{
     sku: string;
     success: boolean;
     error?: string;
+    errors?: Array<{ field: string; message: string }>; // validate_only findings
+    warnings?: Array<{ field: string; message: string }>;
   }>;
 }
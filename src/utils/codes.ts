@@ -0,0 +1,44 @@
+/**
+ * Deterministic UnoPim code generation
+ * Turns free text (labels, column headers, category names) into codes matching /^[a-z0-9_]+$/
+ */
+
+import { createHash } from 'node:crypto';
+
+const MAX_CODE_LENGTH = 100;
+
+// Letters that Unicode normalization does not decompose into ASCII
+const TRANSLITERATIONS: Record<string, string> = {
+  æ: 'ae', ø: 'o', œ: 'oe', ß: 'ss', ł: 'l', đ: 'd', ð: 'd', þ: 'th', ı: 'i',
+};
+
+/**
+ * Slugifies text into a valid code; the same input always yields the same code
+ * Text with no usable characters (e.g. only symbols or non-Latin script) falls back to a hash
+ */
+export function toCode(text: string, fallbackPrefix = 'code'): string {
+  const slug = text
+    .toLowerCase()
+    .replace(/[æøœßłđðþı]/g, char => TRANSLITERATIONS[char])
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+
+  if (!slug) {
+    return `${fallbackPrefix}_${shortHash(text)}`;
+  }
+
+  if (slug.length > MAX_CODE_LENGTH) {
+    return `${slug.slice(0, MAX_CODE_LENGTH - 9).replace(/_+$/, '')}_${shortHash(text)}`;
+  }
+
+  return slug;
+}
+
+/**
+ * Short stable hash used to disambiguate codes
+ */
+export function shortHash(text: string): string {
+  return createHash('sha1').update(text).digest('hex').slice(0, 8);
+}
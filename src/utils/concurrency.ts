@@ -0,0 +1,48 @@
+/**
+ * Bounded-concurrency execution helpers
+ * Used by bulk tools to run many API calls in parallel without flooding UnoPim
+ */
+
+export type PoolResult<R> =
+  | { status: 'fulfilled'; value: R }
+  | { status: 'rejected'; reason: unknown }
+  | { status: 'skipped' }; // Not started because an earlier item failed with stopOnError
+
+export interface PoolOptions {
+  concurrency: number;
+  stopOnError?: boolean;
+}
+
+/**
+ * Runs worker over every item with at most `concurrency` calls in flight
+ * Results are returned in input order regardless of completion order.
+ * With stopOnError, no new items start after the first failure; items already
+ * in flight still complete and the rest are reported as skipped.
+ */
+export async function runWithConcurrency<T, R>(
+  items: readonly T[],
+  worker: (item: T, index: number) => Promise<R>,
+  options: PoolOptions
+): Promise<PoolResult<R>[]> {
+  const results: PoolResult<R>[] = items.map(() => ({ status: 'skipped' }));
+  const concurrency = Math.max(1, Math.min(options.concurrency, items.length));
+  let nextIndex = 0;
+  let stopped = false;
+
+  const runLane = async (): Promise<void> => {
+    while (!stopped && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = { status: 'fulfilled', value: await worker(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+        if (options.stopOnError) {
+          stopped = true;
+        }
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: concurrency }, runLane));
+  return results;
+}
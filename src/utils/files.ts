@@ -0,0 +1,63 @@
+/**
+ * Server-side file locations for tools that read or write files
+ * Tools are also served over HTTP, so caller-supplied paths are confined to one base directory
+ * (UNOPIM_FILES_DIR, default <tmpdir>/unopim-mcp) and can never reach elsewhere on the host
+ */
+
+import { mkdir, realpath } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, isAbsolute, join, relative, resolve, sep } from 'node:path';
+
+/**
+ * The directory all tool file paths are confined to
+ */
+export function filesDir(): string {
+  return resolve(process.env.UNOPIM_FILES_DIR || join(tmpdir(), 'unopim-mcp'));
+}
+
+/**
+ * Resolves a caller-supplied path inside the files directory
+ * Relative paths are taken relative to it; absolute paths must already point into it.
+ * Symlinks are resolved before the check, so a link cannot lead outside either
+ * @throws Error if the path resolves outside the files directory
+ */
+export async function resolveFilePath(path: string): Promise<string> {
+  const base = filesDir();
+  await mkdir(base, { recursive: true });
+  const realBase = await realpath(base);
+
+  const target = resolve(base, path);
+  if (!isInside(base, target) || !isInside(realBase, await realpathOfExisting(target))) {
+    throw new Error(`Path '${path}' is outside the files directory ${base} (set UNOPIM_FILES_DIR to change it)`);
+  }
+  return target;
+}
+
+/**
+ * A timestamped file name inside the files directory, for tools whose output path is optional
+ */
+export function defaultFilePath(prefix: string, extension: string): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return join(filesDir(), `${prefix}-${timestamp}.${extension}`);
+}
+
+function isInside(base: string, target: string): boolean {
+  const rel = relative(base, target);
+  return rel === '' || (rel !== '..' && !rel.startsWith(`..${sep}`) && !isAbsolute(rel));
+}
+
+/**
+ * Real path of the target, or of its nearest existing ancestor with the rest appended
+ * (output files usually do not exist yet)
+ */
+async function realpathOfExisting(target: string): Promise<string> {
+  try {
+    return await realpath(target);
+  } catch {
+    const parent = dirname(target);
+    if (parent === target) {
+      return target;
+    }
+    return join(await realpathOfExisting(parent), relative(parent, target));
+  }
+}
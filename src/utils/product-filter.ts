@@ -0,0 +1,207 @@
+/**
+ * Structured product filters
+ * UnoPim's REST API only filters by sku, family and type, so attribute values, categories,
+ * parent and date ranges are matched client-side while pages stream in
+ */
+
+import { z } from 'zod';
+import { listScopedValues, type ScopedValue } from './product-values.js';
+import type { Product, ProductValues } from '../types/unopim.js';
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
+const ConditionValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+const AttributeConditionSchema = z.object({
+  attribute: z.string().describe('Attribute code, e.g. "color"'),
+  operator: z.enum(['=', '!=', 'IN', 'CONTAINS', 'EMPTY', 'NOT EMPTY']),
+  value: z.union([ConditionValueSchema, z.array(ConditionValueSchema)]).optional()
+    .describe('Required for =, != and CONTAINS; an array for IN; omitted for EMPTY / NOT EMPTY'),
+  locale: z.string().optional().describe('Only check values in this locale (overrides the top-level locale)'),
+  channel: z.string().optional().describe('Only check values in this channel (overrides the top-level channel)'),
+}).refine(
+  (condition) => {
+    if (condition.operator === 'EMPTY' || condition.operator === 'NOT EMPTY') return true;
+    if (condition.operator === 'IN') return Array.isArray(condition.value);
+    return condition.value !== undefined && !Array.isArray(condition.value);
+  },
+  'IN needs an array value; =, != and CONTAINS need a single value'
+);
+
+const DateRangeSchema = z.object({
+  from: z.string().optional().describe('Inclusive lower bound (ISO date or datetime)'),
+  to: z.string().optional().describe('Inclusive upper bound (ISO date or datetime)'),
+});
+
+export const ProductFilterSchema = z.object({
+  conditions: z.array(AttributeConditionSchema).optional()
+    .describe('Attribute value conditions; all must match'),
+  categories: z.object({
+    any_of: z.array(z.string()).optional(),
+    all_of: z.array(z.string()).optional(),
+    none_of: z.array(z.string()).optional(),
+  }).optional().describe('Category membership by category code'),
+  parent: z.string().nullable().optional()
+    .describe('Parent SKU of variants; null matches products without a parent'),
+  created_at: DateRangeSchema.optional(),
+  updated_at: DateRangeSchema.optional(),
+});
+
+export type ProductFilter = z.infer<typeof ProductFilterSchema>;
+type AttributeCondition = z.infer<typeof AttributeConditionSchema>;
+
+export interface ValueScope {
+  locale?: string;
+  channel?: string;
+}
+
+// ============================================================================
+// Matching
+// ============================================================================
+
+/**
+ * Whether the filter has anything that must be evaluated client-side
+ */
+export function hasClientSideFilters(filter: ProductFilter | undefined): boolean {
+  if (!filter) return false;
+  return (filter.conditions?.length ?? 0) > 0
+    || filter.categories !== undefined
+    || filter.parent !== undefined
+    || filter.created_at !== undefined
+    || filter.updated_at !== undefined;
+}
+
+/**
+ * Tests a product against every part of the filter
+ */
+export function matchesFilter(product: Product, filter: ProductFilter, scope: ValueScope = {}): boolean {
+  if (filter.parent !== undefined && (product.parent ?? null) !== filter.parent) {
+    return false;
+  }
+
+  if (!inDateRange(product.created_at, filter.created_at) || !inDateRange(product.updated_at, filter.updated_at)) {
+    return false;
+  }
+
+  if (filter.categories) {
+    const assigned = new Set(product.values?.categories || []);
+    const { any_of, all_of, none_of } = filter.categories;
+    if (any_of && !any_of.some(code => assigned.has(code))) return false;
+    if (all_of && !all_of.every(code => assigned.has(code))) return false;
+    if (none_of && none_of.some(code => assigned.has(code))) return false;
+  }
+
+  const entries = listScopedValues((product.values || {}) as Record<string, unknown>);
+  return (filter.conditions || []).every(condition => matchesCondition(entries, condition, scope));
+}
+
+function matchesCondition(entries: ScopedValue[], condition: AttributeCondition, scope: ValueScope): boolean {
+  const locale = condition.locale ?? scope.locale;
+  const channel = condition.channel ?? scope.channel;
+  const values = entries
+    .filter(entry => entry.code === condition.attribute && inScope(entry, { locale, channel }))
+    .map(entry => valueStrings(entry.value))
+    .filter(strings => strings.length > 0);
+
+  const expected = Array.isArray(condition.value)
+    ? condition.value.map(String)
+    : condition.value === undefined ? [] : [String(condition.value)];
+
+  switch (condition.operator) {
+    case 'EMPTY':
+      return values.length === 0;
+    case 'NOT EMPTY':
+      return values.length > 0;
+    case '=':
+      return values.some(strings => strings.includes(expected[0]));
+    case '!=':
+      return values.every(strings => !strings.includes(expected[0]));
+    case 'IN':
+      return values.some(strings => strings.some(s => expected.includes(s)));
+    case 'CONTAINS': {
+      const needle = expected[0].toLowerCase();
+      return values.some(strings => strings.some(s => s.toLowerCase().includes(needle)));
+    }
+  }
+}
+
+/**
+ * Common values always apply; scoped values only when their locale/channel matches
+ */
+function inScope(entry: ScopedValue, scope: ValueScope): boolean {
+  return (!scope.locale || !entry.locale || entry.locale === scope.locale)
+    && (!scope.channel || !entry.channel || entry.channel === scope.channel);
+}
+
+/**
+ * Comparable strings for a value: multiselect lists and arrays are split,
+ * price-like objects contribute each of their amounts; empty values yield nothing
+ */
+function valueStrings(value: unknown): string[] {
+  if (value === undefined || value === null || value === '') return [];
+  if (Array.isArray(value)) return value.flatMap(valueStrings);
+  if (typeof value === 'object') return Object.values(value as Record<string, unknown>).flatMap(valueStrings);
+
+  const text = String(value);
+  const parts = text.includes(',') ? text.split(',').map(part => part.trim()).filter(Boolean) : [];
+  return [text, ...parts];
+}
+
+function inDateRange(value: string | undefined, range: { from?: string; to?: string } | undefined): boolean {
+  if (!range) return true;
+  if (!value) return false;
+
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) return false;
+  if (range.from && time < Date.parse(range.from)) return false;
+  if (range.to && time > endOfRange(range.to)) return false;
+  return true;
+}
+
+/**
+ * A bare date as upper bound covers the whole day
+ */
+function endOfRange(to: string): number {
+  const time = Date.parse(to);
+  return /^\d{4}-\d{2}-\d{2}$/.test(to) ? time + 24 * 60 * 60 * 1000 - 1 : time;
+}
+
+// ============================================================================
+// Projection
+// ============================================================================
+
+/**
+ * Trims product values to the requested attributes and locale/channel
+ * sku is always kept; categories and associations are left untouched
+ */
+export function projectProduct(product: Product, attributes: string[] | undefined, scope: ValueScope): Product {
+  if (!attributes && !scope.locale && !scope.channel) {
+    return product;
+  }
+
+  const keep = (code: string): boolean => !attributes || code === 'sku' || attributes.includes(code);
+  const pick = (attrs: Record<string, unknown> | undefined): Record<string, unknown> =>
+    Object.fromEntries(Object.entries(attrs || {}).filter(([code]) => keep(code)));
+  const pickKeys = <T>(record: Record<string, T> | undefined, wanted: string | undefined): Record<string, T> =>
+    Object.fromEntries(Object.entries(record || {}).filter(([key]) => !wanted || key === wanted));
+
+  const values = product.values || {};
+  const projected: ProductValues = {
+    ...values,
+    common: pick(values.common),
+    locale_specific: mapRecord(pickKeys(values.locale_specific, scope.locale), pick),
+    channel_specific: mapRecord(pickKeys(values.channel_specific, scope.channel), pick),
+    channel_locale_specific: mapRecord(
+      pickKeys(values.channel_locale_specific, scope.channel),
+      locales => mapRecord(pickKeys(locales, scope.locale), pick)
+    ),
+  };
+
+  return { ...product, values: projected };
+}
+
+function mapRecord<T, R>(record: Record<string, T>, fn: (value: T) => R): Record<string, R> {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [key, fn(value)]));
+}
@@ -0,0 +1,105 @@
+/**
+ * Helpers for walking structured product values
+ * Shared by product validation and tools that inspect existing product data
+ */
+
+export type AttributeScope = 'common' | 'locale_specific' | 'channel_specific' | 'channel_locale_specific';
+
+export interface ScopedValue {
+  scope: AttributeScope;
+  field: string; // dotted path, e.g. channel_locale_specific.default.en_US.name
+  code: string;
+  value: unknown;
+  locale?: string;
+  channel?: string;
+}
+
+/**
+ * Flattens structured product values into one entry per attribute value
+ */
+export function listScopedValues(values: Record<string, unknown>): ScopedValue[] {
+  const entries: ScopedValue[] = [];
+
+  const common = (values.common || {}) as Record<string, unknown>;
+  for (const [code, value] of Object.entries(common)) {
+    entries.push({ scope: 'common', field: `common.${code}`, code, value });
+  }
+
+  const localeSpecific = (values.locale_specific || {}) as Record<string, Record<string, unknown>>;
+  for (const [locale, attrs] of Object.entries(localeSpecific)) {
+    for (const [code, value] of Object.entries(attrs || {})) {
+      entries.push({ scope: 'locale_specific', field: `locale_specific.${locale}.${code}`, code, value, locale });
+    }
+  }
+
+  const channelSpecific = (values.channel_specific || {}) as Record<string, Record<string, unknown>>;
+  for (const [channel, attrs] of Object.entries(channelSpecific)) {
+    for (const [code, value] of Object.entries(attrs || {})) {
+      entries.push({ scope: 'channel_specific', field: `channel_specific.${channel}.${code}`, code, value, channel });
+    }
+  }
+
+  const channelLocaleSpecific = (values.channel_locale_specific || {}) as Record<string, Record<string, Record<string, unknown>>>;
+  for (const [channel, locales] of Object.entries(channelLocaleSpecific)) {
+    for (const [locale, attrs] of Object.entries(locales || {})) {
+      for (const [code, value] of Object.entries(attrs || {})) {
+        entries.push({ scope: 'channel_locale_specific', field: `channel_locale_specific.${channel}.${locale}.${code}`, code, value, channel, locale });
+      }
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Splits a select/multiselect value into option codes
+ * Multiselect values arrive either as arrays or as comma-separated strings
+ */
+export function splitOptionCodes(value: unknown): string[] {
+  if (value === undefined || value === null || value === '') return [];
+  const parts = Array.isArray(value) ? value.map(String) : String(value).split(',');
+  return parts.map(part => part.trim()).filter(part => part !== '');
+}
+
+/**
+ * Spreadsheet column name for a scoped value: code[-locale][-channel], e.g. name-en_US-ecommerce
+ */
+export function columnName(code: string, locale?: string, channel?: string): string {
+  return [code, locale, channel].filter(Boolean).join('-');
+}
+
+/**
+ * Flattens structured product values into one column per attribute/locale/channel
+ * Arrays are joined with commas and object values (e.g. prices by currency) get one
+ * column per key: price-USD, price-ecommerce-EUR
+ */
+export function flattenProductValues(
+  values: Record<string, unknown>,
+  options: { attributes?: string[]; locales?: string[]; channels?: string[] } = {}
+): Record<string, string | number | boolean> {
+  const row: Record<string, string | number | boolean> = {};
+
+  for (const entry of listScopedValues(values)) {
+    if (options.attributes && entry.code !== 'sku' && !options.attributes.includes(entry.code)) continue;
+    if (entry.locale && options.locales && !options.locales.includes(entry.locale)) continue;
+    if (entry.channel && options.channels && !options.channels.includes(entry.channel)) continue;
+
+    const column = columnName(entry.code, entry.locale, entry.channel);
+    if (entry.value !== null && typeof entry.value === 'object' && !Array.isArray(entry.value)) {
+      for (const [key, nested] of Object.entries(entry.value as Record<string, unknown>)) {
+        row[`${column}-${key}`] = toCell(nested);
+      }
+    } else if (entry.value !== undefined && entry.value !== null) {
+      row[column] = toCell(entry.value);
+    }
+  }
+
+  return row;
+}
+
+function toCell(value: unknown): string | number | boolean {
+  if (typeof value === 'number' || typeof value === 'boolean') return value;
+  if (Array.isArray(value)) return value.map(String).join(',');
+  if (value !== null && typeof value === 'object') return JSON.stringify(value);
+  return value === undefined || value === null ? '' : String(value);
+}
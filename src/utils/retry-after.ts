@@ -0,0 +1,34 @@
+/**
+ * Rate limit response headers
+ * Shared by the client's retry loop and the error mapping, which records the wait on RATE_LIMITED errors
+ */
+
+/**
+ * Reads how long the server asked us to wait from rate limit headers
+ * Supports Retry-After (seconds or HTTP date) and Laravel's X-RateLimit-Reset (epoch seconds)
+ * @returns Delay in milliseconds, or undefined if the headers give no hint
+ */
+export function parseRetryAfter(headers: Headers, now: number = Date.now()): number | undefined {
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+
+  const remaining = headers.get('x-ratelimit-remaining');
+  const reset = headers.get('x-ratelimit-reset');
+  if (remaining !== null && Number(remaining) <= 0 && reset) {
+    const resetSeconds = Number(reset);
+    if (Number.isFinite(resetSeconds)) {
+      return Math.max(0, resetSeconds * 1000 - now);
+    }
+  }
+
+  return undefined;
+}
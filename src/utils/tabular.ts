@@ -0,0 +1,304 @@
+/**
+ * Tabular file helpers for CSV, JSONL and XLSX
+ * Rows are streamed through async iterables so large files never sit in memory
+ */
+
+import { createReadStream, createWriteStream, type WriteStream } from 'node:fs';
+import { mkdir } from 'node:fs/promises';
+import { once } from 'node:events';
+import { createInterface } from 'node:readline';
+import { dirname, extname } from 'node:path';
+import ExcelJS from 'exceljs';
+
+export type TabularFormat = 'csv' | 'jsonl' | 'xlsx';
+
+export type Cell = string | number | boolean | null | undefined;
+
+export interface TableRow {
+  row: number; // 1-based row in the source file (the CSV/XLSX header is row 1; JSONL counts records)
+  values: Record<string, Cell>;
+}
+
+export interface ReadTableOptions {
+  format?: TabularFormat; // Detected from the file extension when omitted
+  delimiter?: string; // CSV only; detected from the header line when omitted
+}
+
+export interface WriteTableOptions {
+  format: TabularFormat;
+  columns: string[];
+  delimiter?: string; // CSV only
+  sheetName?: string; // XLSX only
+}
+
+/**
+ * Writes rows to path in the given format
+ * CSV and XLSX get a header row from columns; JSONL writes one object per line with
+ * the columns in order and empty cells omitted
+ * @returns Number of data rows written
+ */
+export async function writeTable(
+  path: string,
+  rows: AsyncIterable<Record<string, Cell>> | Iterable<Record<string, Cell>>,
+  options: WriteTableOptions
+): Promise<number> {
+  await mkdir(dirname(path), { recursive: true });
+
+  if (options.format === 'xlsx') {
+    return writeXlsx(path, rows, options);
+  }
+
+  const stream = createWriteStream(path, { encoding: 'utf8' });
+  let count = 0;
+
+  try {
+    if (options.format === 'csv') {
+      const delimiter = options.delimiter ?? ',';
+      await writeLine(stream, options.columns.map(column => csvEscape(column, delimiter)).join(delimiter));
+      for await (const row of rows) {
+        await writeLine(stream, options.columns.map(column => csvEscape(row[column], delimiter)).join(delimiter));
+        count++;
+      }
+    } else {
+      for await (const row of rows) {
+        const record = Object.fromEntries(
+          options.columns
+            .filter(column => row[column] !== undefined && row[column] !== null && row[column] !== '')
+            .map(column => [column, row[column]])
+        );
+        await writeLine(stream, JSON.stringify(record));
+        count++;
+      }
+    }
+  } finally {
+    stream.end();
+    await once(stream, 'close');
+  }
+
+  return count;
+}
+
+async function writeXlsx(
+  path: string,
+  rows: AsyncIterable<Record<string, Cell>> | Iterable<Record<string, Cell>>,
+  options: WriteTableOptions
+): Promise<number> {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    filename: path,
+    useStyles: false,
+    useSharedStrings: false,
+  });
+  const sheet = workbook.addWorksheet(options.sheetName ?? 'Sheet1');
+  let count = 0;
+
+  sheet.addRow(options.columns).commit();
+  for await (const row of rows) {
+    sheet.addRow(options.columns.map(column => row[column] ?? null)).commit();
+    count++;
+  }
+
+  sheet.commit();
+  await workbook.commit();
+  return count;
+}
+
+/**
+ * Writes one line, waiting for the stream to drain when its buffer is full
+ */
+async function writeLine(stream: WriteStream, line: string): Promise<void> {
+  if (!stream.write(line + '\n')) {
+    await once(stream, 'drain');
+  }
+}
+
+function csvEscape(value: Cell, delimiter: string): string {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim()
+    ? `"${text.replace(/"/g, '""')}"`
+    : text;
+}
+
+/**
+ * Reads a JSON Lines file one parsed object at a time, skipping blank lines
+ */
+export async function* readJsonLines<T = Record<string, unknown>>(path: string): AsyncGenerator<T, void, undefined> {
+  const lines = createInterface({ input: createReadStream(path, { encoding: 'utf8' }), crlfDelay: Infinity });
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber++;
+    if (!line.trim()) continue;
+    try {
+      yield JSON.parse(line) as T;
+    } catch {
+      throw new Error(`Invalid JSON on line ${lineNumber} of ${path}`);
+    }
+  }
+}
+
+/**
+ * Picks the tabular format from a file extension
+ */
+export function detectFormat(path: string): TabularFormat {
+  const extension = extname(path).toLowerCase();
+  if (extension === '.csv' || extension === '.txt' || extension === '.tsv') return 'csv';
+  if (extension === '.jsonl' || extension === '.ndjson') return 'jsonl';
+  if (extension === '.xlsx') return 'xlsx';
+  throw new Error(`Cannot detect file format from '${extension || path}' - pass format explicitly (csv, jsonl or xlsx)`);
+}
+
+/**
+ * Reads a CSV, JSONL or XLSX file one row at a time
+ * CSV and XLSX use the first row as column headers; XLSX reads only the first worksheet
+ */
+export async function* readTable(path: string, options: ReadTableOptions = {}): AsyncGenerator<TableRow, void, undefined> {
+  const format = options.format ?? detectFormat(path);
+
+  if (format === 'jsonl') {
+    let row = 0;
+    for await (const record of readJsonLines<Record<string, unknown>>(path)) {
+      row++;
+      yield { row, values: Object.fromEntries(Object.entries(record).map(([key, value]) => [key, toPlainCell(value)])) };
+    }
+    return;
+  }
+
+  const records = format === 'csv' ? parseCsv(path, options.delimiter) : readXlsxRows(path);
+  let header: string[] | undefined;
+
+  for await (const { row, cells } of records) {
+    if (!header) {
+      header = cells.map(cell => String(cell ?? '').trim());
+      continue;
+    }
+    if (cells.every(cell => cell === undefined || cell === null || cell === '')) continue;
+
+    const values: Record<string, Cell> = {};
+    header.forEach((column, index) => {
+      if (column) values[column] = cells[index];
+    });
+    yield { row, values };
+  }
+}
+
+/**
+ * Streaming RFC 4180 parser: quoted fields may contain delimiters, doubled quotes and newlines
+ */
+async function* parseCsv(path: string, delimiter?: string): AsyncGenerator<{ row: number; cells: Cell[] }, void, undefined> {
+  let field = '';
+  let record: string[] = [];
+  let inQuotes = false;
+  let quotePending = false; // Saw a quote inside a quoted field; the next char decides
+  let fieldStarted = false;
+  let row = 1;
+  let recordRow = 1;
+  let separator = delimiter;
+  let firstChunk = true;
+
+  for await (const chunk of createReadStream(path, { encoding: 'utf8' })) {
+    let text = chunk as string;
+    if (firstChunk) {
+      text = text.replace(/^\uFEFF/, ''); // Excel writes a BOM before the header
+      firstChunk = false;
+    }
+    if (separator === undefined) {
+      separator = detectDelimiter(text);
+    }
+
+    for (const char of text) {
+      if (quotePending) {
+        quotePending = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          quotePending = true;
+        } else {
+          if (char === '\n') row++;
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"' && !fieldStarted) {
+        inQuotes = true;
+        fieldStarted = true;
+      } else if (char === separator) {
+        record.push(field);
+        field = '';
+        fieldStarted = false;
+      } else if (char === '\n') {
+        record.push(field);
+        yield { row: recordRow, cells: record };
+        record = [];
+        field = '';
+        fieldStarted = false;
+        recordRow = ++row;
+      } else if (char !== '\r') {
+        field += char;
+        fieldStarted = true;
+      }
+    }
+  }
+
+  if (inQuotes && !quotePending) {
+    throw new Error(`Unterminated quoted field starting on line ${recordRow} of ${path}`);
+  }
+  if (fieldStarted || field !== '' || record.length > 0) {
+    record.push(field);
+    yield { row: recordRow, cells: record };
+  }
+}
+
+/**
+ * Guesses the CSV delimiter from the header line: the most frequent of , ; tab |
+ */
+function detectDelimiter(text: string): string {
+  const header = text.split('\n', 1)[0];
+  const candidates = [',', ';', '\t', '|'];
+  const counts = candidates.map(candidate => header.split(candidate).length - 1);
+  const best = counts.indexOf(Math.max(...counts));
+  return counts[best] > 0 ? candidates[best] : ',';
+}
+
+async function* readXlsxRows(path: string): AsyncGenerator<{ row: number; cells: Cell[] }, void, undefined> {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookReader(path, {
+    worksheets: 'emit',
+    sharedStrings: 'cache',
+    hyperlinks: 'ignore',
+    styles: 'ignore',
+    entries: 'ignore',
+  });
+
+  for await (const worksheet of workbook) {
+    for await (const row of worksheet) {
+      // row.values is 1-based; index 0 is always empty
+      const values = Array.isArray(row.values) ? row.values.slice(1) : [];
+      yield { row: row.number, cells: Array.from(values, toPlainCell) };
+    }
+    return; // First worksheet only
+  }
+}
+
+/**
+ * Reduces spreadsheet/JSON values (rich text, formulas, hyperlinks, dates, arrays) to plain cells
+ */
+function toPlainCell(value: unknown): Cell {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  if (value instanceof Date) return value.toISOString().replace(/T00:00:00\.000Z$/, '');
+  if (Array.isArray(value)) return value.map(item => String(toPlainCell(item) ?? '')).join(',');
+  if (typeof value === 'object') {
+    const cell = value as { richText?: Array<{ text: string }>; result?: unknown; text?: unknown };
+    if (cell.richText) return cell.richText.map(part => part.text).join('');
+    if ('result' in cell) return toPlainCell(cell.result);
+    if (cell.text !== undefined) return toPlainCell(cell.text);
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { runWithConcurrency } from '../src/utils/concurrency.js';
+
+const delay = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('runWithConcurrency', () => {
+  it('returns results in input order regardless of completion order', async () => {
+    const results = await runWithConcurrency([30, 10, 20], async (ms, index) => {
+      await delay(ms);
+      return index;
+    }, { concurrency: 3 });
+
+    assert.deepEqual(results, [
+      { status: 'fulfilled', value: 0 },
+      { status: 'fulfilled', value: 1 },
+      { status: 'fulfilled', value: 2 },
+    ]);
+  });
+
+  it('never has more than concurrency calls in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    await runWithConcurrency(Array.from({ length: 10 }, (_, i) => i), async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await delay(5);
+      inFlight--;
+    }, { concurrency: 3 });
+
+    assert.equal(peak, 3);
+  });
+
+  it('reports failures per item and keeps going by default', async () => {
+    const results = await runWithConcurrency([1, 2, 3], async (n) => {
+      if (n === 2) throw new Error('boom');
+      return n * 10;
+    }, { concurrency: 1 });
+
+    assert.deepEqual(results[0], { status: 'fulfilled', value: 10 });
+    assert.equal(results[1].status, 'rejected');
+    assert.match(String((results[1] as { reason: unknown }).reason), /boom/);
+    assert.deepEqual(results[2], { status: 'fulfilled', value: 30 });
+  });
+
+  it('skips items not yet started after a failure with stopOnError', async () => {
+    const started: number[] = [];
+    const results = await runWithConcurrency([1, 2, 3, 4], async (n) => {
+      started.push(n);
+      if (n === 2) throw new Error('boom');
+      return n;
+    }, { concurrency: 1, stopOnError: true });
+
+    assert.deepEqual(started, [1, 2]);
+    assert.deepEqual(results.map(result => result.status), ['fulfilled', 'rejected', 'skipped', 'skipped']);
+  });
+
+  it('handles an empty list and a concurrency below one', async () => {
+    assert.deepEqual(await runWithConcurrency([], async () => 1, { concurrency: 4 }), []);
+    const results = await runWithConcurrency(['a'], async (item) => item, { concurrency: 0 });
+    assert.deepEqual(results, [{ status: 'fulfilled', value: 'a' }]);
+  });
+});
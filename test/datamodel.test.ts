@@ -0,0 +1,191 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DatamodelSchema, planDatamodel, type Datamodel, type DatamodelChange } from '../src/tools/datamodel.js';
+import { stubClient } from './helpers.js';
+
+const page = <T>(data: T[]): unknown => ({
+  data,
+  meta: { current_page: 1, from: 1, last_page: 1, per_page: 100, to: data.length, total: data.length },
+});
+
+// A small live instance as the list endpoints return it (0/1 flags, ids)
+function liveRoutes(): Record<string, unknown> {
+  return {
+    'GET /api/v1/rest/attribute-groups': page([
+      { id: 1, code: 'general', labels: { en_US: 'General' }, position: 1 },
+      { id: 2, code: 'legacy', labels: { en_US: 'Legacy' }, position: 9 },
+    ]),
+    'GET /api/v1/rest/attributes': page([
+      { id: 1, code: 'sku', type: 'text', labels: { en_US: 'SKU' }, is_required: 1, is_unique: 1, value_per_locale: 0, value_per_channel: 0 },
+      { id: 2, code: 'name', type: 'text', labels: { en_US: 'Name' }, is_required: 1, is_unique: 0, value_per_locale: 1, value_per_channel: 0 },
+      { id: 3, code: 'color', type: 'select', labels: { en_US: 'Color' }, is_required: 0, is_unique: 0, value_per_locale: 0, value_per_channel: 0 },
+      { id: 4, code: 'old_field', type: 'text', labels: { en_US: 'Old' }, is_required: 0, is_unique: 0, value_per_locale: 0, value_per_channel: 0 },
+    ]),
+    'GET /api/v1/rest/attributes/color/options': [
+      { id: 10, code: 'red', sort_order: 1, labels: { en_US: 'Red' } },
+      { id: 11, code: 'blue', sort_order: 2, labels: { en_US: 'Blue' } },
+    ],
+    'GET /api/v1/rest/families': page([
+      {
+        id: 1,
+        code: 'clothing',
+        labels: { en_US: 'Clothing' },
+        attribute_groups: [
+          { code: 'general', position: 1, custom_attributes: [{ code: 'sku', position: 1 }, { code: 'name', position: 2 }, { code: 'color', position: 3 }] },
+        ],
+      },
+      { id: 2, code: 'old_family', labels: { en_US: 'Old' }, attribute_groups: [] },
+    ]),
+    'GET /api/v1/rest/categories': page([
+      { id: 1, code: 'root', parent: null, labels: { en_US: 'Root' } },
+      { id: 2, code: 'shirts', parent: 'root', labels: { en_US: 'Shirts' } },
+      { id: 3, code: 'sale', parent: 'root', labels: { en_US: 'Sale' } },
+      { id: 4, code: 'sale_summer', parent: 'sale', labels: { en_US: 'Summer sale' } },
+    ]),
+  };
+}
+
+// The datamodel that matches liveRoutes (legacy, old_field, old_family and sale are left out)
+function matchingDatamodel(): Datamodel {
+  return DatamodelSchema.parse({
+    attribute_groups: [{ code: 'general', labels: { en_US: 'General' }, position: 1 }],
+    attributes: [
+      { code: 'sku', type: 'text', is_required: true },
+      { code: 'name', type: 'text', labels: { en_US: 'Name' }, value_per_locale: true },
+      {
+        code: 'color',
+        type: 'select',
+        options: [{ code: 'red', labels: { en_US: 'Red' }, sort_order: 1 }, { code: 'blue', sort_order: 2 }],
+      },
+    ],
+    families: [{ code: 'clothing', attribute_groups: [{ code: 'general', custom_attributes: ['sku', 'name', 'color'] }] }],
+    categories: [{ code: 'root', parent: null }, { code: 'shirts', parent: 'root' }],
+  });
+}
+
+async function plan(datamodel: Datamodel, prune = false) {
+  const { client } = stubClient(liveRoutes());
+  return planDatamodel(client, { datamodel, prune });
+}
+
+const describeChange = (change: DatamodelChange): string =>
+  `${change.action} ${change.entity} ${change.attribute ? `${change.attribute}.` : ''}${change.code}`;
+
+describe('planDatamodel', () => {
+  it('has nothing to do when the live instance matches', async () => {
+    const result = await plan(matchingDatamodel());
+
+    assert.deepEqual(result.changes, []);
+    assert.deepEqual(result.conflicts, []);
+    assert.deepEqual(result.summary, { create: 0, update: 0, delete: 0 });
+    assert.match(result.text, /No changes/);
+  });
+
+  it('orders creates by dependency: groups, attributes, options, categories, families', async () => {
+    const datamodel = matchingDatamodel();
+    datamodel.attribute_groups.push({ code: 'technical', labels: { en_US: 'Technical' }, position: 2 });
+    datamodel.attributes.push({ code: 'material', type: 'text', labels: { en_US: 'Material' } });
+    datamodel.attributes[2].options!.push({ code: 'green', labels: { en_US: 'Green' }, sort_order: 3 });
+    datamodel.categories.push({ code: 'polo', parent: 'shirts_new' }, { code: 'shirts_new', parent: 'root', labels: { en_US: 'New' } });
+    datamodel.families.push({
+      code: 'shoes',
+      labels: { en_US: 'Shoes' },
+      attribute_groups: [{ code: 'technical', custom_attributes: ['material', { code: 'sku', position: 0 }] }],
+    });
+
+    const result = await plan(datamodel);
+
+    assert.deepEqual(result.changes.map(describeChange), [
+      'create attribute_group technical',
+      'create attribute material',
+      'create attribute_option color.green',
+      'create category shirts_new',
+      'create category polo',
+      'create family shoes',
+    ]);
+    // Entries are renumbered in the order their positions give
+    assert.deepEqual(result.changes[5].payload, {
+      labels: { en_US: 'Shoes' },
+      attribute_groups: [{
+        code: 'technical',
+        position: 1,
+        custom_attributes: [{ code: 'sku', position: 1 }, { code: 'material', position: 2 }],
+      }],
+    });
+    // polo has no labels, so creating it is a conflict
+    assert.deepEqual(result.conflicts, [`category 'polo' needs labels to be created`]);
+  });
+
+  it('updates only the fields that differ, comparing 0/1 flags as booleans', async () => {
+    const datamodel = matchingDatamodel();
+    datamodel.attributes[1].labels = { en_US: 'Product name' };
+    datamodel.attributes[2].options![1].sort_order = 5;
+    datamodel.families[0].attribute_groups[0].custom_attributes = ['sku', 'color', 'name'];
+
+    const result = await plan(datamodel);
+
+    assert.deepEqual(result.changes, [
+      { action: 'update', entity: 'attribute', code: 'name', fields: ['labels'], payload: { labels: { en_US: 'Product name' } } },
+      { action: 'update', entity: 'attribute_option', code: 'blue', attribute: 'color', fields: ['sort_order'], payload: { sort_order: 5 } },
+      {
+        action: 'update',
+        entity: 'family',
+        code: 'clothing',
+        fields: ['attribute_groups'],
+        payload: {
+          labels: { en_US: 'Clothing' },
+          attribute_groups: [{
+            code: 'general',
+            position: 1,
+            custom_attributes: [{ code: 'sku', position: 1 }, { code: 'color', position: 2 }, { code: 'name', position: 3 }],
+          }],
+        },
+      },
+    ]);
+    assert.equal(result.summary.update, 3);
+  });
+
+  it('reports conflicts for immutable fields and unknown references', async () => {
+    const datamodel = matchingDatamodel();
+    datamodel.attributes[1].value_per_locale = false;
+    datamodel.families[0].attribute_groups.push({ code: 'nowhere', custom_attributes: ['ghost'] });
+
+    const result = await plan(datamodel);
+
+    assert.deepEqual(result.conflicts, [
+      `attribute 'name': value_per_locale is 1 live but false in the datamodel - this cannot change once the attribute exists`,
+      `family 'clothing': attribute group 'nowhere' is neither in the datamodel nor live`,
+      `family 'clothing': unknown attribute(s) ghost`,
+    ]);
+    assert.match(result.text, /Conflicts \(apply is blocked\)/);
+  });
+
+  it('prunes in reverse dependency order, keeping sku and top-level categories', async () => {
+    const datamodel = matchingDatamodel();
+    datamodel.attributes[2].options!.pop();
+
+    const result = await plan(datamodel, true);
+
+    assert.deepEqual(result.changes.map(describeChange), [
+      'delete family old_family',
+      'delete category sale_summer',
+      'delete category sale',
+      'delete attribute_option color.blue',
+      'delete attribute old_field',
+      'delete attribute_group legacy',
+    ]);
+    assert.deepEqual(result.conflicts, []);
+  });
+
+  it('gives the same plan the same id', async () => {
+    const datamodel = matchingDatamodel();
+    datamodel.attributes[1].labels = { en_US: 'Product name' };
+
+    const first = await plan(datamodel);
+    const second = await plan(datamodel);
+    const other = await plan(matchingDatamodel());
+
+    assert.equal(first.plan_id, second.plan_id);
+    assert.notEqual(first.plan_id, other.plan_id);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Shared helpers for the node:test suites
+ * Clients talk to recorded fixtures or to a route table, never to a live UnoPim
+ */
+
+import { fileURLToPath } from 'node:url';
+import { UnoPimClient } from '../src/client/unopim-client.js';
+import { createReplayFetch, replayTokenProvider, type FetchFn } from '../src/client/fixtures.js';
+
+export interface StubCall {
+  method: string;
+  path: string;
+  body?: unknown;
+}
+
+/**
+ * Directory of a recorded flow under test/fixtures (tests run from dist-test/test)
+ */
+export function fixtureDir(flow: string): string {
+  return fileURLToPath(new URL(`../../test/fixtures/${flow}`, import.meta.url));
+}
+
+/**
+ * Client answering from the fixtures of one recorded flow
+ * A request the flow did not record fails with INTERNAL_ERROR, so a changed payload fails the test
+ */
+export function replayClient(flow: string): UnoPimClient {
+  return createClient(createReplayFetch(fixtureDir(flow)));
+}
+
+/**
+ * Client answering from a route table keyed by "METHOD /path" (query ignored)
+ * Unknown routes get a 404; calls lists every request in order
+ */
+export function stubClient(routes: Record<string, unknown>): { client: UnoPimClient; calls: StubCall[] } {
+  const calls: StubCall[] = [];
+  const fetchFn: FetchFn = async (url, init = {}) => {
+    const method = (init.method ?? 'GET').toUpperCase();
+    const path = new URL(url).pathname;
+    calls.push({ method, path, ...(typeof init.body === 'string' && { body: JSON.parse(init.body) }) });
+
+    const key = `${method} ${path}`;
+    if (!(key in routes)) {
+      return Response.json({ message: `No route for ${key}` }, { status: 404 });
+    }
+    return Response.json(routes[key]);
+  };
+  return { client: createClient(fetchFn), calls };
+}
+
+function createClient(fetchFn: FetchFn): UnoPimClient {
+  return new UnoPimClient('http://unopim.test', replayTokenProvider, {
+    fetch: fetchFn,
+    rateLimit: { requestsPerSecond: 0, burst: 1 },
+    maxRetries: 1,
+    interceptors: [],
+  });
+}
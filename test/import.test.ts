@@ -0,0 +1,50 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseNumber } from '../src/tools/import.js';
+
+describe('parseNumber', () => {
+  it('passes number cells through unchanged', () => {
+    assert.equal(parseNumber(0.125, true), '0.125');
+    assert.equal(parseNumber(1500, false), '1500');
+  });
+
+  it('treats a single separator as the decimal point', () => {
+    assert.equal(parseNumber('0.125', true), '0.125');
+    assert.equal(parseNumber('1.500', true), '1.5');
+    assert.equal(parseNumber('0,5', true), '0.5');
+    assert.equal(parseNumber('1,234', true), '1.234');
+  });
+
+  it('strips grouping separators when both separators appear', () => {
+    assert.equal(parseNumber('1.234,50', true), '1234.5');
+    assert.equal(parseNumber('1,234.50', true), '1234.5');
+  });
+
+  it('treats a repeated separator as grouping', () => {
+    assert.equal(parseNumber('1.234.567', false), '1234567');
+    assert.equal(parseNumber('1,234,567', false), '1234567');
+  });
+
+  it('ignores spaces, apostrophes and non-breaking spaces', () => {
+    assert.equal(parseNumber(' 1 234,5 ', true), '1234.5');
+    assert.equal(parseNumber("1'234'567", false), '1234567');
+    assert.equal(parseNumber('12 000', false), '12000');
+  });
+
+  it('follows an explicit decimal separator', () => {
+    assert.equal(parseNumber('1,234', true, '.'), '1234');
+    assert.equal(parseNumber('1.500', false, ','), '1500');
+    assert.equal(parseNumber('2,75', true, ','), '2.75');
+  });
+
+  it('rejects text that is not a number', () => {
+    assert.throws(() => parseNumber('abc', true), /'abc' is not a number/);
+    assert.throws(() => parseNumber('', true), /is not a number/);
+    assert.throws(() => parseNumber('1.2.3,4,5', true), /is not a number/);
+  });
+
+  it('rejects decimals where only whole numbers are allowed', () => {
+    assert.throws(() => parseNumber('2.5', false), /'2.5' is not a whole number/);
+    assert.throws(() => parseNumber(2.5, false), /is not a whole number/);
+  });
+});
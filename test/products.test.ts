@@ -0,0 +1,141 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  CreateConfigurableProductInputSchema,
+  SmartCreateProductInputSchema,
+  createConfigurableProduct,
+  smartCreateProduct,
+} from '../src/tools/products.js';
+import { replayClient } from './helpers.js';
+
+// Fixtures: family "clothing" with sku/color/size (common), name (per locale), price (per channel),
+// description (per channel and locale) and legacy_code, which the attribute endpoint no longer knows.
+// Replay only answers requests that match a recording, so every test also pins the request payloads
+
+describe('smartCreateProduct (replay)', () => {
+  const create = (input: unknown) =>
+    smartCreateProduct(replayClient('smart-create-product'), SmartCreateProductInputSchema.parse(input));
+
+  it('sorts flat values into their scopes and creates the product', async () => {
+    const result = await create({
+      sku: 'TS-001',
+      family: 'clothing',
+      values: { name: 'Classic Tee', description: 'Soft organic cotton', price: { USD: '19.99' }, color: 'red' },
+      categories: ['shirts'],
+    });
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.product, { sku: 'TS-001' });
+    assert.deepEqual(result.structured_values, {
+      common: { sku: 'TS-001', color: 'red' },
+      locale_specific: { en_US: { name: 'Classic Tee' } },
+      channel_specific: { default: { price: { USD: '19.99' } } },
+      channel_locale_specific: { default: { en_US: { description: 'Soft organic cotton' } } },
+      categories: ['shirts'],
+    });
+    // legacy_code is in the family but unknown to the API, so it is left out
+    assert.deepEqual(result.family_info, {
+      required_attributes: ['sku', 'name'],
+      common_attributes: ['sku', 'color', 'size'],
+      locale_attributes: ['name'],
+      channel_locale_attributes: ['description'],
+    });
+  });
+
+  it('refuses to create a product missing a required value', async () => {
+    const result = await create({ sku: 'TS-002', family: 'clothing', values: { color: 'blue' } });
+
+    assert.equal(result.success, false);
+    assert.equal(result.product, undefined);
+    assert.deepEqual(result.errors, [
+      { field: 'locale_specific.en_US.name', message: `Required attribute 'name' is missing for locale 'en_US'` },
+    ]);
+  });
+
+  it('returns the field errors of a rejected create', async () => {
+    const result = await create({ sku: 'TS-DUP', family: 'clothing', values: { name: 'Duplicate Tee' } });
+
+    assert.equal(result.success, false);
+    assert.deepEqual(result.errors, [{ field: 'sku', message: 'The sku has already been taken.' }]);
+    assert.deepEqual(result.family_info.required_attributes, ['sku', 'name']);
+  });
+
+  it('only validates with validate_only', async () => {
+    const result = await create({ sku: 'TS-003', family: 'clothing', values: { name: 'Draft Tee' }, validate_only: true });
+
+    assert.equal(result.success, true);
+    assert.equal(result.product, undefined);
+    assert.deepEqual(result.structured_values, {
+      common: { sku: 'TS-003' },
+      locale_specific: { en_US: { name: 'Draft Tee' } },
+    });
+  });
+
+  it('fails on a request that was never recorded', async () => {
+    const result = await create({ sku: 'TS-001', family: 'clothing', values: { name: 'Renamed Tee' } });
+
+    assert.equal(result.success, false);
+    assert.match(result.errors![0].message, /No recorded fixture for POST \/api\/v1\/rest\/products/);
+  });
+});
+
+describe('createConfigurableProduct (replay)', () => {
+  const create = (input: unknown) =>
+    createConfigurableProduct(replayClient('create-configurable-product'), CreateConfigurableProductInputSchema.parse(input));
+
+  it('creates the parent and its variants', async () => {
+    const result = await create({
+      sku: 'CT-100',
+      family: 'clothing',
+      super_attributes: ['color', 'size'],
+      values: { locale_specific: { en_US: { name: 'Hoodie' } } },
+      variants: [
+        { sku: 'CT-100-RED-M', attributes: { color: 'red', size: 'm' } },
+        {
+          sku: 'CT-100-BLUE-M',
+          attributes: { color: 'blue', size: 'm' },
+          values: { channel_specific: { default: { price: { USD: '39.00' } } } },
+        },
+      ],
+    });
+
+    assert.deepEqual(result, {
+      success: true,
+      product: { sku: 'CT-100' },
+      variant_results: [
+        { sku: 'CT-100-RED-M', success: true },
+        { sku: 'CT-100-BLUE-M', success: true },
+      ],
+    });
+  });
+
+  it('falls back to /products when neither configurable endpoint exists', async () => {
+    const result = await create({
+      sku: 'CT-200',
+      family: 'clothing',
+      super_attributes: ['color'],
+      values: { locale_specific: { en_US: { name: 'Cap' } } },
+    });
+
+    assert.deepEqual(result, { success: true, product: { sku: 'CT-200' }, variant_results: undefined });
+  });
+
+  it('reports failed variants without failing the parent', async () => {
+    const result = await create({
+      sku: 'CT-300',
+      family: 'clothing',
+      super_attributes: ['color'],
+      values: { locale_specific: { en_US: { name: 'Scarf' } } },
+      variants: [
+        { sku: 'CT-300-RED', attributes: { color: 'red' } },
+        { sku: 'CT-300-PINK', attributes: { color: 'pink' } },
+      ],
+    });
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.variant_results?.[0], { sku: 'CT-300-RED', success: true });
+    assert.equal(result.variant_results?.[1].sku, 'CT-300-PINK');
+    assert.equal(result.variant_results?.[1].success, false);
+    assert.match(result.variant_results?.[1].error ?? '', /Validation failed/);
+  });
+});
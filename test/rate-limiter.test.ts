@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TokenBucket, backoffDelay } from '../src/client/rate-limiter.js';
+import { parseRetryAfter } from '../src/utils/retry-after.js';
+
+describe('TokenBucket', () => {
+  it('lets a burst through at once and then spaces requests out', async () => {
+    const bucket = new TokenBucket({ requestsPerSecond: 20, burst: 2 });
+    const start = Date.now();
+
+    await bucket.acquire();
+    await bucket.acquire();
+    assert.ok(Date.now() - start < 30, 'burst should not wait');
+
+    await bucket.acquire();
+    await bucket.acquire();
+    // Two more tokens at 20/s take about 100ms
+    assert.ok(Date.now() - start >= 80, `expected throttling, took ${Date.now() - start}ms`);
+  });
+
+  it('does not limit when requestsPerSecond is 0', async () => {
+    const bucket = new TokenBucket({ requestsPerSecond: 0, burst: 1 });
+    const start = Date.now();
+    await Promise.all(Array.from({ length: 50 }, () => bucket.acquire()));
+    assert.ok(Date.now() - start < 30);
+  });
+
+  it('serves waiters in FIFO order', async () => {
+    const bucket = new TokenBucket({ requestsPerSecond: 100, burst: 1 });
+    const order: number[] = [];
+    await Promise.all([1, 2, 3, 4].map(n => bucket.acquire().then(() => order.push(n))));
+    assert.deepEqual(order, [1, 2, 3, 4]);
+  });
+
+  it('blocks every request until a pause ends', async () => {
+    const bucket = new TokenBucket({ requestsPerSecond: 0, burst: 1 });
+    const start = Date.now();
+    bucket.pauseUntil(start + 60);
+    await bucket.acquire();
+    assert.ok(Date.now() - start >= 55, `expected the pause to hold, took ${Date.now() - start}ms`);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2026-01-01T12:00:00Z');
+
+  it('reads Retry-After in seconds', () => {
+    assert.equal(parseRetryAfter(new Headers({ 'Retry-After': '3' }), now), 3000);
+    assert.equal(parseRetryAfter(new Headers({ 'Retry-After': '0' }), now), 0);
+  });
+
+  it('reads Retry-After as an HTTP date', () => {
+    const headers = new Headers({ 'Retry-After': 'Thu, 01 Jan 2026 12:00:10 GMT' });
+    assert.equal(parseRetryAfter(headers, now), 10000);
+  });
+
+  it('never returns a negative wait', () => {
+    assert.equal(parseRetryAfter(new Headers({ 'Retry-After': 'Thu, 01 Jan 2026 11:59:00 GMT' }), now), 0);
+    assert.equal(parseRetryAfter(new Headers({ 'Retry-After': '-5' }), now), 0);
+  });
+
+  it("falls back to Laravel's X-RateLimit-Reset once nothing remains", () => {
+    const reset = String(now / 1000 + 7);
+    assert.equal(parseRetryAfter(new Headers({ 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': reset }), now), 7000);
+    assert.equal(parseRetryAfter(new Headers({ 'X-RateLimit-Remaining': '5', 'X-RateLimit-Reset': reset }), now), undefined);
+  });
+
+  it('returns undefined without usable headers', () => {
+    assert.equal(parseRetryAfter(new Headers(), now), undefined);
+    assert.equal(parseRetryAfter(new Headers({ 'Retry-After': 'soon' }), now), undefined);
+  });
+});
+
+describe('backoffDelay', () => {
+  it('stays between half and the full exponential step, capped', () => {
+    for (let i = 0; i < 20; i++) {
+      const delay = backoffDelay(3, 1000, 60000);
+      assert.ok(delay >= 2000 && delay <= 4000, `attempt 3 gave ${delay}ms`);
+      assert.ok(backoffDelay(20, 1000, 5000) <= 5000);
+    }
+  });
+});
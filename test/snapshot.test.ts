@@ -0,0 +1,147 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffValues, normalizeSnapshot, type FieldChange, type SchemaSnapshot } from '../src/tools/snapshot.js';
+
+// Shaped like getSchema output: ids, timestamps, 0/1 flags and API ordering
+function rawSnapshot(): SchemaSnapshot {
+  return {
+    snapshot_version: 1,
+    attribute_groups: [
+      { id: 7, code: 'marketing', labels: { en_US: 'Marketing' }, position: 2 },
+      { id: 1, code: 'general', labels: { en_US: 'General' }, position: 1 },
+    ],
+    attributes: [
+      {
+        id: 12,
+        code: 'color',
+        type: 'select',
+        labels: { en_US: 'Color' },
+        is_required: 0,
+        is_unique: '0',
+        is_configurable: 1,
+        value_per_locale: 0,
+        value_per_channel: 0,
+        created_at: '2025-03-01T10:00:00Z',
+        updated_at: '2025-06-01T10:00:00Z',
+        options: [
+          { id: 31, attribute_id: 12, code: 'red', sort_order: 2, labels: { en_US: 'Red' } },
+          { id: 30, attribute_id: 12, code: 'blue', sort_order: 1, labels: { en_US: 'Blue' } },
+        ],
+      },
+    ],
+    families: [
+      {
+        id: 4,
+        code: 'clothing',
+        labels: { en_US: 'Clothing' },
+        attribute_groups: [
+          { id: 9, code: 'marketing', position: 2, custom_attributes: [{ code: 'color', position: 1 }] },
+          {
+            id: 8,
+            code: 'general',
+            position: 1,
+            custom_attributes: [{ code: 'name', position: 2 }, { code: 'sku', position: 1 }],
+          },
+        ],
+      },
+    ],
+    categories: [
+      { id: 3, parent_id: 1, _lft: 2, _rgt: 3, code: 'shirts', parent: 'root', labels: { en_US: 'Shirts' }, children: [] },
+      { id: 1, parent_id: null, _lft: 1, _rgt: 4, code: 'root', parent: null, labels: { en_US: 'Root' } },
+    ],
+    channels: [
+      {
+        id: 1,
+        code: 'default',
+        name: 'Default',
+        root_category_id: 1,
+        locales: ['en_US'],
+        currencies: ['USD'],
+        default_locale: 'en_US',
+      },
+    ],
+    locales: [{ id: 58, code: 'en_US', name: 'English (United States)' }],
+  } as unknown as SchemaSnapshot;
+}
+
+describe('normalizeSnapshot', () => {
+  it('drops volatile keys but keeps configuration ids', () => {
+    const snapshot = normalizeSnapshot(rawSnapshot());
+    const json = JSON.stringify(snapshot);
+
+    for (const key of ['"id"', '"attribute_id"', '"parent_id"', '"created_at"', '"updated_at"', '"_lft"', '"_rgt"']) {
+      assert.ok(!json.includes(key), `${key} should be dropped`);
+    }
+    assert.equal((snapshot.channels[0] as unknown as Record<string, unknown>).root_category_id, 1);
+  });
+
+  it('sorts entities by code and layouts and options by position', () => {
+    const snapshot = normalizeSnapshot(rawSnapshot());
+
+    assert.deepEqual(snapshot.attribute_groups.map(group => group.code), ['general', 'marketing']);
+    assert.deepEqual(snapshot.categories.map(category => category.code), ['root', 'shirts']);
+    assert.deepEqual(snapshot.attributes[0].options?.map(option => option.code), ['blue', 'red']);
+
+    const layout = snapshot.families[0].attribute_groups;
+    assert.deepEqual(layout.map(group => group.code), ['general', 'marketing']);
+    assert.deepEqual(layout[0].custom_attributes.map(attribute => attribute.code), ['sku', 'name']);
+  });
+
+  it('turns attribute flags into booleans and drops category children', () => {
+    const snapshot = normalizeSnapshot(rawSnapshot());
+    const color = snapshot.attributes[0];
+
+    assert.equal(color.is_required, false);
+    assert.equal(color.is_unique, false);
+    assert.equal(color.is_configurable, true);
+    assert.ok(!('children' in snapshot.categories[1]));
+  });
+
+  it('is stable: normalizing twice changes nothing', () => {
+    const once = normalizeSnapshot(rawSnapshot());
+    assert.deepEqual(normalizeSnapshot(once), once);
+    assert.equal(JSON.stringify(normalizeSnapshot(once)), JSON.stringify(once));
+  });
+});
+
+describe('diffValues', () => {
+  const diff = (left: unknown, right: unknown): FieldChange[] => {
+    const out: FieldChange[] = [];
+    diffValues('', left, right, out);
+    return out;
+  };
+
+  it('reports nothing for equal values', () => {
+    assert.deepEqual(diff({ a: 1, b: { c: [1, 2] } }, { a: 1, b: { c: [1, 2] } }), []);
+  });
+
+  it('reports changed, added and removed fields by dotted path', () => {
+    assert.deepEqual(diff(
+      { type: 'text', labels: { en_US: 'Name', da_DK: 'Navn' } },
+      { type: 'textarea', labels: { en_US: 'Name', de_DE: 'Name' } }
+    ), [
+      { path: 'type', left: 'text', right: 'textarea' },
+      { path: 'labels.da_DK', left: 'Navn' },
+      { path: 'labels.de_DE', right: 'Name' },
+    ]);
+  });
+
+  it('matches coded lists by code so an insert is reported once', () => {
+    const left = { options: [{ code: 'blue', sort_order: 1 }, { code: 'red', sort_order: 2 }] };
+    const right = { options: [{ code: 'blue', sort_order: 1 }, { code: 'green', sort_order: 2 }, { code: 'red', sort_order: 2 }] };
+
+    assert.deepEqual(diff(left, right), [{ path: 'options.green', right: { code: 'green', sort_order: 2 } }]);
+  });
+
+  it('compares other arrays as whole values', () => {
+    assert.deepEqual(diff({ locales: ['en_US'] }, { locales: ['en_US', 'da_DK'] }), [
+      { path: 'locales', left: ['en_US'], right: ['en_US', 'da_DK'] },
+    ]);
+  });
+
+  it('prefixes paths with the starting path', () => {
+    const out: FieldChange[] = [];
+    diffValues('attribute_groups', [{ code: 'general', position: 1 }], [{ code: 'general', position: 2 }], out);
+    assert.deepEqual(out, [{ path: 'attribute_groups.general.position', left: 1, right: 2 }]);
+  });
+});
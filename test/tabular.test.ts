@@ -0,0 +1,86 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { readTable, writeTable, type TableRow, type ReadTableOptions } from '../src/utils/tabular.js';
+
+let dir: string;
+
+before(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'unopim-tabular-'));
+});
+
+after(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function readCsv(content: string, options: ReadTableOptions = {}): Promise<TableRow[]> {
+  const path = join(dir, `input-${Math.random().toString(36).slice(2)}.csv`);
+  await writeFile(path, content);
+  const rows: TableRow[] = [];
+  for await (const row of readTable(path, options)) {
+    rows.push(row);
+  }
+  return rows;
+}
+
+describe('readTable (CSV)', () => {
+  it('uses the first line as header and numbers rows from the file', async () => {
+    const rows = await readCsv('sku,name\nA1,Shirt\nA2,Pants\n');
+    assert.deepEqual(rows, [
+      { row: 2, values: { sku: 'A1', name: 'Shirt' } },
+      { row: 3, values: { sku: 'A2', name: 'Pants' } },
+    ]);
+  });
+
+  it('handles quoted delimiters, doubled quotes and embedded newlines', async () => {
+    const rows = await readCsv('sku,description,size\r\n"A1","Soft, warm ""wool""\r\nsweater",M\r\nA2,plain,L\r\n');
+    assert.deepEqual(rows[0].values, { sku: 'A1', description: 'Soft, warm "wool"\r\nsweater', size: 'M' });
+    // The quoted newline spans two physical lines, so the next record starts on line 4
+    assert.deepEqual(rows[1], { row: 4, values: { sku: 'A2', description: 'plain', size: 'L' } });
+  });
+
+  it('detects the delimiter from the header line', async () => {
+    assert.deepEqual((await readCsv('sku;price\nA1;1,50\n'))[0].values, { sku: 'A1', price: '1,50' });
+    assert.deepEqual((await readCsv('sku\tname\nA1\tShirt\n'))[0].values, { sku: 'A1', name: 'Shirt' });
+  });
+
+  it('strips a byte order mark, also with an explicit delimiter', async () => {
+    assert.deepEqual((await readCsv('\uFEFFsku,name\nA1,Shirt\n'))[0].values, { sku: 'A1', name: 'Shirt' });
+    assert.deepEqual((await readCsv('\uFEFFsku|name\nA1|Shirt\n', { delimiter: '|' }))[0].values, { sku: 'A1', name: 'Shirt' });
+  });
+
+  it('skips blank lines and reads a last line without a newline', async () => {
+    const rows = await readCsv('sku,name\nA1,Shirt\n,\n\nA2,Pants');
+    assert.deepEqual(rows.map(row => row.values.sku), ['A1', 'A2']);
+    assert.equal(rows[1].row, 5);
+  });
+
+  it('keeps empty cells and ignores unnamed columns', async () => {
+    const rows = await readCsv('sku,,name\nA1,x,\n');
+    assert.deepEqual(rows[0].values, { sku: 'A1', name: '' });
+  });
+
+  it('fails on an unterminated quoted field', async () => {
+    await assert.rejects(readCsv('sku,name\nA1,"Shirt\n'), /Unterminated quoted field starting on line 2/);
+  });
+});
+
+describe('writeTable (CSV)', () => {
+  it('escapes cells so readTable gets them back', async () => {
+    const path = join(dir, 'report.csv');
+    const rows = [
+      { sku: 'A1', message: 'Created' },
+      { sku: 'A,2', message: 'Say "hi"\nagain' },
+    ];
+    assert.equal(await writeTable(path, rows, { format: 'csv', columns: ['sku', 'message'] }), 2);
+
+    assert.equal(await readFile(path, 'utf8'), 'sku,message\nA1,Created\n"A,2","Say ""hi""\nagain"\n');
+    const back: TableRow[] = [];
+    for await (const row of readTable(path)) {
+      back.push(row);
+    }
+    assert.deepEqual(back.map(row => row.values), rows);
+  });
+});